@@ -107,6 +107,8 @@ Restart=always
 RestartSec=10
 Environment=NODE_ENV=production
 Environment=PORT=3001
+# nginx proxies every request, so take the client address from X-Forwarded-For
+Environment=TRUST_PROXY=loopback
 Environment=JWT_SECRET=$(openssl rand -hex 32)
 
 [Install]
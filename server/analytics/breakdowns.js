@@ -0,0 +1,33 @@
+// Categorical breakdowns (referrers, devices, browsers, ...) for analytics responses.
+
+// Count items per key, most frequent first; blank keys are reported as `fallback`
+export function countBy(items, getKey, { fallback = 'Unknown', limit = 10 } = {}) {
+  const counts = new Map();
+  for (const item of items) {
+    const key = getKey(item) || fallback;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return Array.from(counts, ([name, clicks]) => ({ name, clicks }))
+    .sort((a, b) => b.clicks - a.clicks)
+    .slice(0, limit);
+}
+
+// Group referrers by host so different pages of the same site count together
+export function referrerHost(referer) {
+  if (!referer) {
+    return null;
+  }
+  try {
+    return new URL(referer).hostname.replace(/^www\./, '');
+  } catch (error) {
+    return referer;
+  }
+}
+
+// City names repeat across countries, so cities are keyed with their country code
+export function cityLabel(click) {
+  if (!click.city) {
+    return null;
+  }
+  return click.country ? `${click.city}, ${click.country}` : click.city;
+}
@@ -0,0 +1,64 @@
+// Period-over-period metrics for analytics responses.
+
+// The period of equal length that ends right before the given range
+export function previousRange(range) {
+  const duration = range.to.getTime() - range.from.getTime() + 1;
+  return {
+    ...range,
+    from: new Date(range.from.getTime() - duration),
+    to: new Date(range.from.getTime() - 1)
+  };
+}
+
+function round(value) {
+  return Math.round(value * 10) / 10;
+}
+
+// A click's visitor: its salted visitor ID, or the IP for clicks stored before visitor IDs existed
+export function visitorKey(click) {
+  return click.visitor_id || click.ip_address;
+}
+
+export function countVisitors(clicks) {
+  return new Set(clicks.map(visitorKey)).size;
+}
+
+// Percentage of clicks that came from distinct visitors, or null without clicks
+export function uniqueRate(totalClicks, uniqueClicks) {
+  return totalClicks > 0 ? round((uniqueClicks / totalClicks) * 100) : null;
+}
+
+// Headline numbers for one period
+export function summarizePeriod(clicks, links, range) {
+  const totalClicks = clicks.length;
+  const uniqueClicks = countVisitors(clicks);
+
+  return {
+    totalClicks,
+    uniqueClicks,
+    uniqueRate: uniqueRate(totalClicks, uniqueClicks),
+    activeLinks: new Set(clicks.map(click => click.link_id)).size,
+    newLinks: links.filter(link => {
+      const created = new Date(link.created_at).getTime();
+      return created >= range.from.getTime() && created <= range.to.getTime();
+    }).length
+  };
+}
+
+// Relative change is only reported when the previous period has data to compare against
+export function compareMetric(current, previous) {
+  const canCompare = current !== null && previous !== null && previous !== 0;
+  return {
+    current,
+    previous,
+    change: canCompare ? round(((current - previous) / previous) * 100) : null
+  };
+}
+
+export function comparePeriods(current, previous, keys = Object.keys(current)) {
+  const metrics = {};
+  for (const key of keys) {
+    metrics[key] = compareMetric(current[key], previous[key]);
+  }
+  return metrics;
+}
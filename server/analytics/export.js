@@ -0,0 +1,187 @@
+// Streaming CSV / newline-delimited JSON exports.
+// Clicks are read from storage as they are written out, and rows go out in
+// chunks that respect the response's backpressure, so a large export never
+// sits in memory as a table or as one big string.
+import csvWriter from 'csv-writer';
+import { bucketFor, bucketLabels } from './timeSeries.js';
+import { uniqueRate, visitorKey } from './comparison.js';
+
+export const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' }
+};
+
+const CHUNK_SIZE = 500;
+
+async function* clickRows(links, clicks) {
+  const linksById = new Map(links.map(link => [link.id, link]));
+  for await (const click of clicks) {
+    const link = linksById.get(click.link_id);
+    yield {
+      click_id: click.id,
+      created_at: click.created_at,
+      link_id: click.link_id,
+      short_code: link.short_code,
+      campaign_id: click.campaign_id,
+      ip_address: click.ip_address,
+      visitor_id: click.visitor_id,
+      referer: click.referer,
+      device_type: click.device_type,
+      browser: click.browser,
+      os: click.os,
+      country: click.country,
+      city: click.city,
+      is_bot: click.is_bot,
+      bot_name: click.bot_name,
+      variant_id: click.variant_id,
+      rule_id: click.rule_id,
+      source: click.source,
+      user_agent: click.user_agent
+    };
+  }
+}
+
+// Summary reports keep running totals per link or bucket instead of the clicks themselves
+async function* linkRows(links, clicks) {
+  const totals = new Map(links.map(link => [link.id, { clicks: 0, visitors: new Set(), first: null, last: null }]));
+  for await (const click of clicks) {
+    const total = totals.get(click.link_id);
+    total.clicks++;
+    total.visitors.add(visitorKey(click));
+    total.first = total.first || click.created_at;
+    total.last = click.created_at;
+  }
+  for (const link of links) {
+    const total = totals.get(link.id);
+    yield {
+      link_id: link.id,
+      short_code: link.short_code,
+      title: link.title,
+      original_url: link.original_url,
+      campaign_id: link.campaign_id,
+      clicks: total.clicks,
+      unique_clicks: total.visitors.size,
+      unique_rate: uniqueRate(total.clicks, total.visitors.size),
+      first_click_at: total.first,
+      last_click_at: total.last
+    };
+  }
+}
+
+async function* timeSeriesRows(links, clicks, range) {
+  const totals = new Map(bucketLabels(range).map(label => [label, { clicks: 0, visitors: new Set() }]));
+  for await (const click of clicks) {
+    const total = totals.get(bucketFor(click.created_at, range));
+    if (total) {
+      total.clicks++;
+      total.visitors.add(visitorKey(click));
+    }
+  }
+  for (const [period, total] of totals) {
+    yield {
+      period,
+      clicks: total.clicks,
+      unique_clicks: total.visitors.size
+    };
+  }
+}
+
+// Each report turns the filtered links and an async iterable of their in-range clicks into rows
+export const EXPORT_REPORTS = {
+  clicks: {
+    columns: ['click_id', 'created_at', 'link_id', 'short_code', 'campaign_id', 'ip_address', 'visitor_id', 'referer', 'device_type', 'browser', 'os', 'country', 'city', 'is_bot', 'bot_name', 'variant_id', 'rule_id', 'source', 'user_agent'],
+    rows: clickRows
+  },
+  links: {
+    columns: ['link_id', 'short_code', 'title', 'original_url', 'campaign_id', 'clicks', 'unique_clicks', 'unique_rate', 'first_click_at', 'last_click_at'],
+    rows: linkRows
+  },
+  timeseries: {
+    columns: ['period', 'clicks', 'unique_clicks'],
+    rows: timeSeriesRows
+  }
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toSpreadsheetCell(value) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function createSerializer(format, columns) {
+  if (format === 'ndjson') {
+    return {
+      header: '',
+      rows: records => records.map(record => JSON.stringify(record)).join('\n') + '\n'
+    };
+  }
+
+  const stringifier = csvWriter.createObjectCsvStringifier({
+    header: columns.map(column => ({ id: column, title: column }))
+  });
+  return {
+    // The byte order mark makes Excel open the file as UTF-8
+    header: '\uFEFF' + stringifier.getHeaderString(),
+    rows: records => stringifier.stringifyRecords(records.map(record => {
+      const cells = {};
+      for (const column of columns) {
+        cells[column] = toSpreadsheetCell(record[column]);
+      }
+      return cells;
+    }))
+  };
+}
+
+function waitForDrain(res) {
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+// Stream rows (any iterable, sync or async) to the response as an attachment
+export async function streamExport(res, { format, filename, columns, rows }) {
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  const serializer = createSerializer(format, columns);
+
+  res.status(200);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${extension}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (serializer.header) {
+    res.write(serializer.header);
+  }
+
+  let chunk = [];
+  const writeChunk = async () => {
+    const ok = res.write(serializer.rows(chunk));
+    chunk = [];
+    if (!ok) {
+      await waitForDrain(res);
+    }
+  };
+
+  for await (const row of rows) {
+    if (res.destroyed) {
+      return; // Client went away; stop producing rows
+    }
+    chunk.push(row);
+    if (chunk.length >= CHUNK_SIZE) {
+      await writeChunk();
+    }
+  }
+  if (chunk.length > 0) {
+    await writeChunk();
+  }
+  res.end();
+}
@@ -0,0 +1,191 @@
+// Date range parsing and time-zone aware bucketing for analytics queries.
+// Bucket math is done on the wall-clock time in the requested zone, stored in
+// a UTC Date, so day/week/month boundaries follow the user's calendar.
+
+export const GRANULARITIES = ['hour', 'day', 'week', 'month'];
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_BUCKETS = 2000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export class AnalyticsQueryError extends Error {}
+
+const formatters = new Map();
+
+function getFormatter(tz) {
+  if (!formatters.has(tz)) {
+    formatters.set(tz, new Intl.DateTimeFormat('en-US', {
+      timeZone: tz,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }));
+  }
+  return formatters.get(tz);
+}
+
+export function isValidTimeZone(tz) {
+  try {
+    getFormatter(tz);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// The wall-clock time of an instant in a zone, expressed as a UTC Date
+export function toWallClock(date, tz) {
+  const parts = {};
+  for (const { type, value } of getFormatter(tz).formatToParts(date)) {
+    parts[type] = value;
+  }
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, date.getUTCMilliseconds()));
+}
+
+// The instant at which a zone's wall clock shows the given time
+function fromWallClock(wall, tz) {
+  let guess = wall.getTime();
+  for (let i = 0; i < 2; i++) {
+    const offset = toWallClock(new Date(guess), tz).getTime() - guess;
+    guess = wall.getTime() - offset;
+  }
+  return new Date(guess);
+}
+
+function startOfBucket(wall, granularity) {
+  const start = new Date(wall);
+  start.setUTCMinutes(0, 0, 0);
+  if (granularity === 'hour') {
+    return start;
+  }
+  start.setUTCHours(0);
+  if (granularity === 'week') {
+    // Weeks start on Monday
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (granularity === 'month') {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+function nextBucket(wall, granularity) {
+  const next = new Date(wall);
+  switch (granularity) {
+    case 'hour':
+      next.setUTCHours(next.getUTCHours() + 1);
+      break;
+    case 'day':
+      next.setUTCDate(next.getUTCDate() + 1);
+      break;
+    case 'week':
+      next.setUTCDate(next.getUTCDate() + 7);
+      break;
+    default:
+      next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return next;
+}
+
+function bucketLabel(wall, granularity) {
+  const iso = wall.toISOString();
+  switch (granularity) {
+    case 'hour':
+      return `${iso.slice(0, 13)}:00`;
+    case 'month':
+      return iso.slice(0, 7);
+    default:
+      return iso.slice(0, 10);
+  }
+}
+
+export function bucketFor(date, range) {
+  return bucketLabel(startOfBucket(toWallClock(new Date(date), range.tz), range.granularity), range.granularity);
+}
+
+function parseBoundary(value, tz, endOfDay) {
+  if (DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    const wall = endOfDay
+      ? new Date(Date.UTC(year, month - 1, day, 23, 59, 59, 999))
+      : new Date(Date.UTC(year, month - 1, day));
+    return fromWallClock(wall, tz);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new AnalyticsQueryError(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+// Parse from/to/granularity/tz query parameters.
+// Date-only values cover whole days in the requested zone. limitBuckets can be
+// turned off for callers that never split the range into buckets.
+export function parseAnalyticsRange(query = {}, { limitBuckets = true } = {}) {
+  const tz = query.tz || 'UTC';
+  if (!isValidTimeZone(tz)) {
+    throw new AnalyticsQueryError(`Invalid time zone: ${tz}`);
+  }
+
+  const granularity = query.granularity || 'day';
+  if (!GRANULARITIES.includes(granularity)) {
+    throw new AnalyticsQueryError(`granularity must be one of ${GRANULARITIES.join(', ')}`);
+  }
+
+  const to = query.to ? parseBoundary(query.to, tz, true) : new Date();
+  const from = query.from
+    ? parseBoundary(query.from, tz, false)
+    : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+  if (from > to) {
+    throw new AnalyticsQueryError('from must be before to');
+  }
+
+  const range = { from, to, granularity, tz };
+  if (limitBuckets && bucketLabels(range).length > MAX_BUCKETS) {
+    throw new AnalyticsQueryError(`Range is too large for ${granularity} granularity`);
+  }
+  return range;
+}
+
+export function isInRange(date, range) {
+  const time = new Date(date).getTime();
+  return time >= range.from.getTime() && time <= range.to.getTime();
+}
+
+// Every bucket label in the range, in order
+export function bucketLabels(range) {
+  const labels = [];
+  const end = toWallClock(range.to, range.tz);
+  for (let wall = startOfBucket(toWallClock(range.from, range.tz), range.granularity); wall <= end; wall = nextBucket(wall, range.granularity)) {
+    labels.push(bucketLabel(wall, range.granularity));
+    if (labels.length > MAX_BUCKETS) {
+      break;
+    }
+  }
+  return labels;
+}
+
+// Count items per bucket, including empty buckets, across the whole range
+export function buildTimeSeries(items, range, getDate = item => item.created_at) {
+  const counts = new Map(bucketLabels(range).map(label => [label, 0]));
+  for (const item of items) {
+    const label = bucketFor(getDate(item), range);
+    if (counts.has(label)) {
+      counts.set(label, counts.get(label) + 1);
+    }
+  }
+  return Array.from(counts, ([date, clicks]) => ({ date, clicks }));
+}
+
+export function serializeRange(range) {
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    granularity: range.granularity,
+    tz: range.tz
+  };
+}
@@ -0,0 +1,53 @@
+// UTM tagging for campaign links.
+// A campaign holds a template of utm_* values that may contain placeholders such
+// as {campaign_name}; each link can override any of them. The values are merged
+// into the destination when a short link is followed, so editing a template
+// also retags links that were created before the change.
+
+export const UTM_FIELDS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+// Placeholder values for a link; unknown placeholders are left as typed
+function placeholderValues(link, campaign) {
+  return {
+    campaign_name: campaign?.name || '',
+    campaign_id: campaign?.id || '',
+    short_code: link.short_code || '',
+    link_id: link.id || '',
+    link_title: link.title || ''
+  };
+}
+
+function expandPlaceholders(template, values) {
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? values[name] : match));
+}
+
+// The link's destination with UTM parameters applied. A link's own override
+// wins, then a parameter already present in original_url, then the campaign
+// template. Parameters that end up empty are left out.
+export function buildDestinationUrl(link, campaign) {
+  let url;
+  try {
+    url = new URL(link.original_url);
+  } catch (error) {
+    return link.original_url;
+  }
+
+  const values = placeholderValues(link, campaign);
+  let changed = false;
+  for (const field of UTM_FIELDS) {
+    const override = link[field];
+    const template = campaign?.[field];
+    if (override) {
+      url.searchParams.set(field, expandPlaceholders(override, values));
+      changed = true;
+    } else if (template && !url.searchParams.has(field)) {
+      const value = expandPlaceholders(template, values);
+      if (value) {
+        url.searchParams.set(field, value);
+        changed = true;
+      }
+    }
+  }
+  // Untagged links keep their URL exactly as entered
+  return changed ? url.toString() : link.original_url;
+}
@@ -0,0 +1,83 @@
+// Conversion tracking.
+// Every redirect hands the visitor a click ID, appended to the destination URL
+// and set in a cookie on the short link domain. The advertiser reports a
+// conversion by sending that click ID back, either from their server
+// (postback) or from the visitor's browser (pixel). Postbacks carry the
+// account's secret, since the click ID itself leaks through referers and
+// logs. A click converts at most once; repeated reports for the same click
+// are ignored.
+import crypto from 'crypto';
+
+export const CLICK_ID_COOKIE = 'lt_click_id';
+export const POSTBACK_SECRET_HEADER = 'x-postback-secret';
+
+export class ConversionError extends Error {}
+
+// A transparent 1x1 GIF
+export const PIXEL_GIF = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+export function createPostbackSecret() {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+// The secret sent with a postback, from the X-Postback-Secret header or the secret parameter
+export function readPostbackSecret(headers, input) {
+  const secret = headers[POSTBACK_SECRET_HEADER] || input.secret;
+  return typeof secret === 'string' ? secret.trim() : '';
+}
+
+// Destination URL with the click ID added as the given query parameter
+export function withClickId(destination, param, clickId) {
+  if (!param) {
+    return destination;
+  }
+  try {
+    const url = new URL(destination);
+    url.searchParams.set(param, clickId);
+    return url.toString();
+  } catch (error) {
+    return destination;
+  }
+}
+
+// Validates the click_id, value and currency of a conversion report
+export function parseConversion(input) {
+  const click_id = String(input.click_id || '').trim();
+  if (!click_id) {
+    throw new ConversionError('click_id is required');
+  }
+
+  let value = 0;
+  if (input.value !== undefined && input.value !== '') {
+    value = Number(input.value);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new ConversionError('value must be a non-negative number');
+    }
+  }
+
+  const currency = String(input.currency || 'USD').trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    throw new ConversionError('currency must be a three-letter ISO code such as USD');
+  }
+
+  return { click_id, value, currency };
+}
+
+function round(value) {
+  return Math.round(value * 100) / 100;
+}
+
+// Conversion count, rate against the given number of clicks and revenue per currency
+export function summarizeConversions(conversions, clickCount) {
+  const revenue = {};
+  for (const conversion of conversions) {
+    if (conversion.value) {
+      revenue[conversion.currency] = round((revenue[conversion.currency] || 0) + conversion.value);
+    }
+  }
+  return {
+    conversions: conversions.length,
+    conversionRate: clickCount > 0 ? Math.round((conversions.length / clickCount) * 1000) / 10 : null,
+    revenue
+  };
+}
@@ -0,0 +1,36 @@
+// App association files for custom domains.
+// iOS only opens universal links, and Android only verifies app links, on a
+// domain that lists the app in apple-app-site-association or assetlinks.json.
+// Both are generated from the domain's app settings.
+
+function listOf(value) {
+  return String(value || '').split(',').filter(Boolean);
+}
+
+// apple-app-site-association, or null when the domain lists no iOS apps
+export function appleAppSiteAssociation(domain) {
+  const appIDs = listOf(domain.ios_app_ids);
+  if (appIDs.length === 0) {
+    return null;
+  }
+  return {
+    applinks: {
+      details: [{ appIDs, components: [{ '/': '/*' }] }]
+    }
+  };
+}
+
+// Digital Asset Links statement list, or null without an Android package
+export function assetLinks(domain) {
+  if (!domain.android_package_name) {
+    return null;
+  }
+  return [{
+    relation: ['delegate_permission/common.handle_all_urls'],
+    target: {
+      namespace: 'android_app',
+      package_name: domain.android_package_name,
+      sha256_cert_fingerprints: listOf(domain.android_cert_fingerprints)
+    }
+  }];
+}
@@ -0,0 +1,69 @@
+// Settings for what a custom domain shows outside of its short links: where its
+// root redirects to, how its not-found and expired pages look, and which mobile
+// apps its association files list.
+import { isHttpUrl } from '../links/urls.js';
+
+export const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Editable settings and the longest value each accepts
+export const DOMAIN_SETTINGS_FIELDS = {
+  root_redirect_url: 2048,
+  logo_url: 2048,
+  brand_color: 7,
+  background_color: 7,
+  not_found_title: 100,
+  not_found_message: 500,
+  expired_title: 100,
+  expired_message: 500,
+  ios_app_ids: 1000,
+  android_package_name: 255,
+  android_cert_fingerprints: 2000
+};
+
+const URL_FIELDS = ['root_redirect_url', 'logo_url'];
+const COLOR_FIELDS = ['brand_color', 'background_color'];
+
+// Comma-separated lists and the format of each entry
+const LIST_FIELDS = {
+  ios_app_ids: { pattern: /^[A-Z0-9]{10}\.[A-Za-z0-9.-]+$/, example: 'ABCDE12345.com.example.app' },
+  android_cert_fingerprints: { pattern: /^([0-9A-F]{2}:){31}[0-9A-F]{2}$/, example: 'a SHA-256 fingerprint such as 14:6D:E9:...' }
+};
+const ANDROID_PACKAGE_PATTERN = /^[a-zA-Z]\w*(\.[a-zA-Z]\w*)+$/;
+
+export class DomainSettingsError extends Error {}
+
+// The settings present in a request body, trimmed and checked. Empty values clear a setting.
+export function readDomainSettings(body) {
+  const changes = {};
+  for (const [field, maxLength] of Object.entries(DOMAIN_SETTINGS_FIELDS)) {
+    if (!(field in body)) {
+      continue;
+    }
+    const value = String(body[field] ?? '').trim();
+    if (value.length > maxLength) {
+      throw new DomainSettingsError(`${field} must be at most ${maxLength} characters`);
+    }
+    if (value && URL_FIELDS.includes(field) && !isHttpUrl(value)) {
+      throw new DomainSettingsError(`${field} must be an http or https URL`);
+    }
+    if (value && COLOR_FIELDS.includes(field) && !HEX_COLOR_PATTERN.test(value)) {
+      throw new DomainSettingsError(`${field} must be a hex color such as #2563eb`);
+    }
+    if (value && field === 'android_package_name' && !ANDROID_PACKAGE_PATTERN.test(value)) {
+      throw new DomainSettingsError('android_package_name must be a package name such as com.example.app');
+    }
+    if (LIST_FIELDS[field]) {
+      const { pattern, example } = LIST_FIELDS[field];
+      const entries = value.split(/[\s,]+/).filter(Boolean)
+        .map(entry => (field === 'android_cert_fingerprints' ? entry.toUpperCase() : entry));
+      const invalid = entries.find(entry => !pattern.test(entry));
+      if (invalid) {
+        throw new DomainSettingsError(`"${invalid}" in ${field} is not valid; expected ${example}`);
+      }
+      changes[field] = entries.join(',');
+      continue;
+    }
+    changes[field] = value;
+  }
+  return changes;
+}
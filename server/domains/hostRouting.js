@@ -0,0 +1,44 @@
+// Maps the Host of an incoming request to a custom domain.
+// Only verified, active domains take part; every other host is treated as the
+// default domain. The domain list is cached briefly because it is consulted on
+// every redirect.
+export function createHostRouter({ storage, cacheTtlMs = 30000 }) {
+  let domainsByHost = null;
+  let loadedAt = 0;
+  let loading = null;
+
+  async function load() {
+    const domains = await storage.domains.all({ is_verified: true, is_active: true });
+    domainsByHost = new Map(domains.map(domain => [domain.domain.toLowerCase(), domain]));
+    loadedAt = Date.now();
+  }
+
+  // The verified domain serving this host, or null for the default domain
+  async function domainForHost(hostname) {
+    if (!domainsByHost || Date.now() - loadedAt > cacheTtlMs) {
+      loading = loading || load().finally(() => {
+        loading = null;
+      });
+      await loading;
+    }
+    return domainsByHost.get(String(hostname || '').toLowerCase()) || null;
+  }
+
+  // The link a short code refers to on this host. Each host only serves its
+  // own links: codes are unique per domain, so a link on a custom domain must
+  // not answer on the default domain, where another account may own the code.
+  // Uniqueness ignores case, so /promo finds the link with alias Promo.
+  async function findLink(hostname, shortCode) {
+    const domain = await domainForHost(hostname);
+    const links = await storage.links.allIgnoreCase('short_code', shortCode);
+    const domainId = domain ? domain.id : '';
+    return links.find(link => (link.domain_id || '') === domainId) || null;
+  }
+
+  // Call after a domain is added, verified or changed
+  function invalidate() {
+    domainsByHost = null;
+  }
+
+  return { domainForHost, findLink, invalidate };
+}
@@ -0,0 +1,137 @@
+// DNS-based ownership checks for custom domains.
+// A domain is verified once its TXT record carries the domain's token and its
+// CNAME points at our host. Lookups go through a resolver object so tests can
+// pass a stub instead of touching real DNS.
+import crypto from 'crypto';
+import { Resolver } from 'dns/promises';
+
+const TXT_PREFIX = '_linktracker';
+const TXT_VALUE_PREFIX = 'linktracker-verification=';
+
+// Answers that simply mean "no such record"
+const MISSING_RECORD_CODES = new Set(['ENODATA', 'ENOTFOUND', 'ENONAME']);
+
+export function createVerificationToken() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+export function createDnsResolver({ timeoutMs = 5000 } = {}) {
+  const resolver = new Resolver({ timeout: timeoutMs, tries: 2 });
+  return {
+    resolveTxt: hostname => resolver.resolveTxt(hostname),
+    resolveCname: hostname => resolver.resolveCname(hostname)
+  };
+}
+
+// The records a user has to add at their DNS provider
+export function verificationRecords(domain, cnameTarget) {
+  return [
+    { type: 'CNAME', name: domain.domain, value: cnameTarget },
+    { type: 'TXT', name: `${TXT_PREFIX}.${domain.domain}`, value: `${TXT_VALUE_PREFIX}${domain.verification_token}` }
+  ];
+}
+
+function normalizeHost(host) {
+  return host.toLowerCase().replace(/\.$/, '');
+}
+
+async function lookup(resolve) {
+  try {
+    return { records: await resolve() };
+  } catch (error) {
+    if (MISSING_RECORD_CODES.has(error.code)) {
+      return { records: [] };
+    }
+    return { records: [], error: `DNS lookup failed (${error.code || error.message})` };
+  }
+}
+
+// Look up both records and describe what, if anything, is wrong
+export async function checkDomain(domain, { resolver, cnameTarget }) {
+  const [txt, cname] = await Promise.all([
+    lookup(() => resolver.resolveTxt(`${TXT_PREFIX}.${domain.domain}`)),
+    lookup(() => resolver.resolveCname(domain.domain))
+  ]);
+
+  // TXT answers come back as arrays of chunks that together form one string
+  const txtValues = txt.records.map(chunks => chunks.join(''));
+  const txtOk = txtValues.includes(`${TXT_VALUE_PREFIX}${domain.verification_token}`);
+  const cnameValues = cname.records.map(normalizeHost);
+  const cnameOk = cnameValues.includes(normalizeHost(cnameTarget));
+
+  const errors = [];
+  if (!txtOk) {
+    errors.push(txt.error || `TXT record ${TXT_PREFIX}.${domain.domain} does not contain the verification token`);
+  }
+  if (!cnameOk) {
+    errors.push(cname.error || `CNAME for ${domain.domain} does not point to ${cnameTarget}`);
+  }
+
+  return {
+    verified: txtOk && cnameOk,
+    txt: { ok: txtOk, values: txtValues },
+    cname: { ok: cnameOk, values: cnameValues },
+    error: errors.join('; ')
+  };
+}
+
+// Runs checks, stores their outcome and re-checks unverified domains on a timer
+export function createDomainVerifier({ storage, resolver = createDnsResolver(), cnameTarget, recheckIntervalMs = 10 * 60 * 1000 }) {
+  let timer = null;
+  let rechecking = null;
+
+  async function verify(domain) {
+    const result = await checkDomain(domain, { resolver, cnameTarget });
+
+    // The same name may be claimed by several accounts, but only one can hold it verified
+    const holders = await storage.domains.all({ domain: domain.domain, is_verified: true });
+    if (result.verified && holders.some(holder => holder.id !== domain.id)) {
+      result.verified = false;
+      result.error = 'Domain is already verified by another account';
+    }
+
+    const now = new Date().toISOString();
+    const updated = await storage.domains.update(domain.id, {
+      is_verified: result.verified,
+      // Keep the original verification time while the domain stays verified
+      verified_at: result.verified ? domain.verified_at || now : '',
+      last_checked_at: now,
+      verification_error: result.error,
+      updated_at: now
+    });
+    return { domain: updated, checks: result };
+  }
+
+  async function recheckUnverified() {
+    const domains = await storage.domains.all({ is_verified: false });
+    for (const domain of domains) {
+      try {
+        await verify(domain);
+      } catch (error) {
+        console.error(`Failed to re-check domain ${domain.domain}:`, error);
+      }
+    }
+  }
+
+  function start() {
+    if (!timer) {
+      timer = setInterval(() => {
+        // Skip a tick rather than overlap with a slow previous run
+        if (!rechecking) {
+          rechecking = recheckUnverified().finally(() => {
+            rechecking = null;
+          });
+        }
+      }, recheckIntervalMs);
+      timer.unref();
+    }
+  }
+
+  async function stop() {
+    clearInterval(timer);
+    timer = null;
+    await rechecking;
+  }
+
+  return { verify, recheckUnverified, start, stop };
+}
@@ -0,0 +1,150 @@
+// Parsing and validation for bulk link imports from CSV.
+// Validation is pure: it returns one report entry per row with its errors and
+// cleaned-up fields, and leaves creating records to the caller.
+import { Readable } from 'stream';
+import csvParser from 'csv-parser';
+import { isHttpUrl } from '../links/urls.js';
+
+export const IMPORT_FIELDS = ['original_url', 'title', 'campaign', 'short_code', 'expires_at', 'tags'];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Header names we recognise when guessing the column mapping
+const FIELD_ALIASES = {
+  original_url: ['original_url', 'url', 'destination', 'destination_url', 'long_url', 'link'],
+  title: ['title', 'name', 'label'],
+  campaign: ['campaign', 'campaign_name'],
+  short_code: ['short_code', 'alias', 'custom_alias', 'slug', 'code'],
+  expires_at: ['expires_at', 'expires', 'expiry', 'expiration', 'expiration_date'],
+  tags: ['tags', 'tag', 'labels']
+};
+
+export class ImportError extends Error {}
+
+function normalizeHeader(header) {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function parseCsv(buffer) {
+  return new Promise((resolve, reject) => {
+    const records = [];
+    let columns = [];
+    let count = 0;
+    Readable.from(buffer)
+      .pipe(csvParser({ mapHeaders: ({ header }) => header.replace(/^\uFEFF/, '').trim() }))
+      .on('headers', headers => {
+        columns = headers;
+      })
+      .on('data', record => {
+        // Keep counting past the limit so the error can be reported once parsing ends
+        if (++count <= MAX_IMPORT_ROWS) {
+          records.push(record);
+        }
+      })
+      .on('end', () => {
+        if (count > MAX_IMPORT_ROWS) {
+          return reject(new ImportError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`));
+        }
+        resolve({ columns, records });
+      })
+      .on('error', error => reject(new ImportError(`Could not parse CSV: ${error.message}`)));
+  });
+}
+
+export function guessMapping(columns) {
+  const mapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const column = columns.find(c => FIELD_ALIASES[field].includes(normalizeHeader(c)));
+    if (column) {
+      mapping[field] = column;
+    }
+  }
+  return mapping;
+}
+
+export function checkMapping(mapping, columns) {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    throw new ImportError('mapping must be a JSON object of import field -> CSV column');
+  }
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!IMPORT_FIELDS.includes(field)) {
+      throw new ImportError(`Unknown import field: ${field}`);
+    }
+    if (column && !columns.includes(column)) {
+      throw new ImportError(`Column not found in file: ${column}`);
+    }
+  }
+  if (!mapping.original_url) {
+    throw new ImportError('A column must be mapped to original_url');
+  }
+}
+
+// Tags are stored as a comma-separated list; commas, semicolons and pipes all separate them
+export function parseTags(value) {
+  return Array.from(new Set(
+    String(value ?? '')
+      .split(/[,;|]/)
+      .map(tag => tag.trim())
+      .filter(Boolean)
+  )).join(',');
+}
+
+// Validate every record against the mapping.
+// takenCodes holds the lower-cased short codes already in use; validateAlias is the alias policy.
+export function validateImportRows(records, mapping, { takenCodes, validateAlias }) {
+  const seenCodes = new Set();
+  const now = new Date();
+
+  return records.map((record, index) => {
+    const value = field => (mapping[field] ? String(record[mapping[field]] ?? '').trim() : '');
+    const errors = [];
+
+    const original_url = value('original_url');
+    if (!original_url) {
+      errors.push('original_url is required');
+    } else if (!isHttpUrl(original_url)) {
+      errors.push('original_url must be an http or https URL');
+    }
+
+    const short_code = value('short_code');
+    if (short_code) {
+      const key = short_code.toLowerCase();
+      const aliasError = validateAlias(short_code);
+      if (aliasError) {
+        errors.push(aliasError);
+      } else if (takenCodes.has(key)) {
+        errors.push(`Alias "${short_code}" is already taken`);
+      } else if (seenCodes.has(key)) {
+        errors.push(`Alias "${short_code}" appears more than once in the file`);
+      }
+      seenCodes.add(key);
+    }
+
+    let expires_at = '';
+    const expires = value('expires_at');
+    if (expires) {
+      const date = new Date(expires);
+      if (isNaN(date.getTime())) {
+        errors.push(`Invalid expiry date: ${expires}`);
+      } else if (date <= now) {
+        errors.push('Expiry date is in the past');
+      } else {
+        expires_at = date.toISOString();
+      }
+    }
+
+    return {
+      // Row numbers as the user sees them in a spreadsheet, counting the header
+      row: index + 2,
+      errors,
+      fields: {
+        original_url,
+        title: value('title'),
+        campaign: value('campaign'),
+        short_code,
+        expires_at,
+        tags: parseTags(value('tags'))
+      }
+    };
+  });
+}
@@ -2,15 +2,36 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import path from 'path';
-import fs from 'fs/promises';
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { UAParser } from 'ua-parser-js';
+import { Bots } from 'ua-parser-js/extensions';
 import { RateLimiterMemory } from 'rate-limiter-flexible';
-import csvParser from 'csv-parser';
-import csvWriter from 'csv-writer';
+import multer from 'multer';
 import { fileURLToPath } from 'url';
-import { createReadStream } from 'fs';
+import { createStorage } from './storage/index.js';
+import { createClickBuffer } from './ingest/clickBuffer.js';
+import { AnalyticsQueryError, parseAnalyticsRange, isInRange, bucketFor, buildTimeSeries, serializeRange } from './analytics/timeSeries.js';
+import { previousRange, summarizePeriod, comparePeriods, uniqueRate, countVisitors } from './analytics/comparison.js';
+import { countBy, referrerHost, cityLabel } from './analytics/breakdowns.js';
+import { EXPORT_FORMATS, EXPORT_REPORTS, streamExport } from './analytics/export.js';
+import { createVerificationToken, verificationRecords, createDomainVerifier } from './domains/verification.js';
+import { createHostRouter } from './domains/hostRouting.js';
+import { createGeoIp } from './ingest/geoip.js';
+import { classifyClick } from './ingest/botDetection.js';
+import { anonymizeIp, createVisitorHasher, createClickRetention } from './ingest/privacy.js';
+import { UTM_FIELDS, buildDestinationUrl } from './campaigns/utm.js';
+import { CLICK_ID_COOKIE, PIXEL_GIF, ConversionError, createPostbackSecret, readPostbackSecret, withClickId, parseConversion, summarizeConversions } from './conversions/tracking.js';
+import { HEX_COLOR_PATTERN, DomainSettingsError, readDomainSettings } from './domains/branding.js';
+import { validateAlias, takenCodesFor, suggestAliases } from './links/aliases.js';
+import { VariantError, parseVariants, pickVariant, compareVariants } from './links/variants.js';
+import { RuleError, parseRules, targetingContext, matchesRule, findMatchingRule } from './links/targeting.js';
+import { DEEP_LINK_FIELDS, DeepLinkError, normalizeDeepLinkField, platformFor, deepLinkFor } from './links/deepLinks.js';
+import { appleAppSiteAssociation, assetLinks } from './domains/appLinks.js';
+import { isHttpUrl } from './links/urls.js';
+import { QrCodeError, parseQrOptions, renderQrCode } from './links/qrCode.js';
+import { ImportError, parseCsv, guessMapping, checkMapping, validateImportRows, parseTags } from './import/linkImport.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -31,6 +52,39 @@ const rateLimiter = new RateLimiterMemory({
   duration: 60, // Per 60 seconds
 });
 
+// Failed unlock attempts on password-protected links
+const unlockIpLimiter = new RateLimiterMemory({
+  keyPrefix: 'unlock_ip',
+  points: 5, // Failed attempts per link and IP
+  duration: 15 * 60, // Per 15 minutes
+});
+
+const unlockLinkLimiter = new RateLimiterMemory({
+  keyPrefix: 'unlock_link',
+  points: 50, // Failed attempts per link across all IPs
+  duration: 15 * 60, // Per 15 minutes
+});
+
+const UNLOCK_TOKEN_TTL = 30 * 60; // Seconds an unlocked link stays unlocked
+const CLICK_ID_COOKIE_TTL = 30 * 24 * 60 * 60; // Seconds a click can still be credited with a pixel conversion
+const VARIANT_COOKIE_TTL = 30 * 24 * 60 * 60; // Seconds a visitor keeps the A/B variant they were assigned
+
+// Behind a reverse proxy req.ip is the proxy's address unless Express trusts
+// its X-Forwarded-For. TRUST_PROXY takes Express's "trust proxy" values: true,
+// a hop count, or addresses and subnets such as loopback (what deploy.sh's
+// nginx needs). Unset trusts nothing, for servers reached directly.
+function parseTrustProxy(value) {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? parseInt(value) : value;
+}
+
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+
 // Middleware
 app.use(helmet());
 app.use(cors({
@@ -38,7 +92,21 @@ app.use(cors({
   credentials: true
 }));
 app.use(express.json());
-app.use(express.static(path.join(__dirname, '../dist')));
+app.use(express.urlencoded({ extended: false }));
+
+// Requests on a verified custom domain carry it in res.locals.customDomain.
+// Those domains are public-facing, so the admin app is never served on them.
+app.use(async (req, res, next) => {
+  try {
+    res.locals.customDomain = await hostRouter.domainForHost(req.hostname);
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
+const serveAdminApp = express.static(path.join(__dirname, '../dist'));
+app.use((req, res, next) => (res.locals.customDomain ? next() : serveAdminApp(req, res, next)));
 
 // Rate limiting middleware
 const rateLimitMiddleware = async (req, res, next) => {
@@ -54,110 +122,95 @@ app.use(rateLimitMiddleware);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    clickIngestion: clickBuffer ? clickBuffer.stats() : null,
+    geoip: geoIp ? geoIp.isAvailable() : false
+  });
 });
 
-// CSV file paths
-const DATA_DIR = path.join(__dirname, 'data');
-const FILES = {
-  users: path.join(DATA_DIR, 'users.csv'),
-  links: path.join(DATA_DIR, 'links.csv'),
-  clicks: path.join(DATA_DIR, 'clicks.csv'),
-  campaigns: path.join(DATA_DIR, 'campaigns.csv'),
-  domains: path.join(DATA_DIR, 'domains.csv')
-};
+// Storage configuration
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, 'data');
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND || 'csv';
+const SQLITE_PATH = process.env.SQLITE_PATH || path.join(DATA_DIR, 'linktracker.db');
+
+// Click ingestion configuration
+const CLICK_BATCH_SIZE = parseInt(process.env.CLICK_BATCH_SIZE) || 100;
+const CLICK_FLUSH_INTERVAL_MS = parseInt(process.env.CLICK_FLUSH_INTERVAL_MS) || 1000;
+
+// Offline GeoIP database (MaxMind MMDB format); clicks get no location without it
+const GEOIP_DATABASE_PATH = process.env.GEOIP_DATABASE_PATH || path.join(DATA_DIR, 'GeoLite2-City.mmdb');
+
+// Privacy: PRIVACY_MODE=true truncates IPs before they are stored; raw clicks
+// older than CLICK_RETENTION_DAYS are deleted (0 keeps them forever)
+const PRIVACY_MODE = process.env.PRIVACY_MODE === 'true';
+const CLICK_RETENTION_DAYS = parseInt(process.env.CLICK_RETENTION_DAYS) || 0;
+
+// Query parameter that carries the click ID to destinations; set it empty to rely on the cookie alone
+const CLICK_ID_PARAM = process.env.CLICK_ID_PARAM ?? 'lt_click_id';
+
+// Origin short links are served from, for QR codes; defaults to the host the request came in on
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
 
-// Initialize data directory and CSV files
-async function initializeDataFiles() {
+// Custom domain verification
+const DOMAIN_CNAME_TARGET = process.env.DOMAIN_CNAME_TARGET || 'linktracker.app';
+const DOMAIN_RECHECK_INTERVAL_MS = parseInt(process.env.DOMAIN_RECHECK_INTERVAL_MS) || 10 * 60 * 1000;
+
+let storage;
+let clickBuffer;
+let domainVerifier;
+let hostRouter;
+let geoIp;
+let visitorHasher;
+let clickRetention;
+
+// Open the configured storage backend and seed the default admin user
+async function initializeStorage() {
   try {
-    console.log('Initializing data directory:', DATA_DIR);
-    await fs.mkdir(DATA_DIR, { recursive: true });
-    console.log('Data directory created successfully');
-    
-    // Initialize users.csv
-    const usersExists = await fs.access(FILES.users).then(() => true).catch(() => false);
-    console.log('Users file exists:', usersExists);
-    if (!usersExists) {
-      console.log('Creating users.csv file...');
-      const usersWriter = csvWriter.createObjectCsvWriter({
-        path: FILES.users,
-        header: [
-          { id: 'id', title: 'id' },
-          { id: 'email', title: 'email' },
-          { id: 'password', title: 'password' },
-          { id: 'name', title: 'name' },
-          { id: 'plan', title: 'plan' },
-          { id: 'created_at', title: 'created_at' }
-        ]
-      });
-      
-      // Create default admin user
+    console.log(`Initializing ${STORAGE_BACKEND} storage in:`, STORAGE_BACKEND === 'sqlite' ? SQLITE_PATH : DATA_DIR);
+    storage = await createStorage({ backend: STORAGE_BACKEND, dataDir: DATA_DIR, sqlitePath: SQLITE_PATH });
+    clickBuffer = createClickBuffer({
+      storage,
+      batchSize: CLICK_BATCH_SIZE,
+      flushIntervalMs: CLICK_FLUSH_INTERVAL_MS
+    });
+    domainVerifier = createDomainVerifier({
+      storage,
+      cnameTarget: DOMAIN_CNAME_TARGET,
+      recheckIntervalMs: DOMAIN_RECHECK_INTERVAL_MS
+    });
+    hostRouter = createHostRouter({ storage });
+    geoIp = await createGeoIp({ databasePath: GEOIP_DATABASE_PATH });
+    visitorHasher = await createVisitorHasher({ saltPath: path.join(DATA_DIR, 'visitor-salt.json') });
+    clickRetention = createClickRetention({ storage, retentionDays: CLICK_RETENTION_DAYS });
+
+    // Domains added before verification tokens existed get one now
+    const domains = await storage.domains.all();
+    for (const domain of domains.filter(d => !d.verification_token)) {
+      await storage.domains.update(domain.id, { verification_token: createVerificationToken() });
+    }
+
+    const users = await storage.users.all();
+    if (users.length === 0) {
       const hashedPassword = await bcrypt.hash('admin123', 10);
-      await usersWriter.writeRecords([{
+      await storage.users.insert({
         id: 'admin-1',
         email: 'admin@linktracker.com',
         password: hashedPassword,
         name: 'Admin User',
         plan: 'pro',
         created_at: new Date().toISOString()
-      }]);
+      });
       console.log('Default admin user created');
     }
-
-    // Initialize other CSV files
-    const csvFiles = [
-      { file: FILES.links, headers: ['id', 'user_id', 'original_url', 'short_code', 'title', 'description', 'campaign_id', 'domain_id', 'is_cloaked', 'cloak_title', 'cloak_description', 'password_hash', 'expires_at', 'is_active', 'click_count', 'created_at', 'updated_at'] },
-      { file: FILES.clicks, headers: ['id', 'link_id', 'campaign_id', 'ip_address', 'user_agent', 'referer', 'country', 'city', 'device_type', 'browser', 'os', 'created_at'] },
-      { file: FILES.campaigns, headers: ['id', 'user_id', 'name', 'description', 'is_active', 'total_clicks', 'unique_clicks', 'conversion_rate', 'created_at', 'updated_at'] },
-      { file: FILES.domains, headers: ['id', 'user_id', 'domain', 'is_verified', 'ssl_enabled', 'is_active', 'created_at', 'updated_at'] }
-    ];
-
-    for (const { file, headers } of csvFiles) {
-      const exists = await fs.access(file).then(() => true).catch(() => false);
-      console.log(`File ${file} exists:`, exists);
-      if (!exists) {
-        console.log(`Creating ${file}...`);
-        const writer = csvWriter.createObjectCsvWriter({
-          path: file,
-          header: headers.map(h => ({ id: h, title: h }))
-        });
-        await writer.writeRecords([]);
-        console.log(`${file} created successfully`);
-      }
-    }
-    console.log('All data files initialized successfully');
+    console.log('Storage initialized successfully');
   } catch (error) {
-    console.error('Error initializing data files:', error);
+    console.error('Error initializing storage:', error);
     throw error; // Re-throw to prevent server from starting with broken data setup
   }
 }
 
-// CSV utility functions
-async function readCSV(filePath) {
-  const results = [];
-  return new Promise((resolve, reject) => {
-    createReadStream(filePath)
-      .pipe(csvParser())
-      .on('data', (data) => results.push(data))
-      .on('end', () => resolve(results))
-      .on('error', reject);
-  });
-}
-
-async function writeCSV(filePath, data, headers) {
-  const writer = csvWriter.createObjectCsvWriter({
-    path: filePath,
-    header: headers.map(h => ({ id: h, title: h }))
-  });
-  await writer.writeRecords(data);
-}
-
-async function appendToCSV(filePath, record, headers) {
-  const existingData = await readCSV(filePath);
-  existingData.push(record);
-  await writeCSV(filePath, existingData, headers);
-}
-
 // Authentication middleware
 const authenticateToken = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
@@ -169,8 +222,7 @@ const authenticateToken = async (req, res, next) => {
 
   try {
     const decoded = jwt.verify(token, JWT_SECRET);
-    const users = await readCSV(FILES.users);
-    const user = users.find(u => u.id === decoded.userId);
+    const user = await storage.users.find({ id: decoded.userId });
     
     if (!user) {
       return res.status(403).json({ error: 'Invalid token' });
@@ -183,6 +235,11 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
+// Generate a record id; the random suffix keeps ids unique within the same millisecond
+function generateId(prefix) {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
 // Generate short code
 function generateShortCode(length = 6) {
   const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -193,12 +250,20 @@ function generateShortCode(length = 6) {
   return result;
 }
 
+// A random short code that is free on a domain, given its lower-cased taken codes
+function generateUniqueShortCode(takenCodes) {
+  let code;
+  do {
+    code = generateShortCode();
+  } while (takenCodes.has(code.toLowerCase()) || validateAlias(code));
+  return code;
+}
+
 // Auth routes
 app.post('/api/auth/login', async (req, res) => {
   try {
     const { email, password } = req.body;
-    const users = await readCSV(FILES.users);
-    const user = users.find(u => u.email === email);
+    const user = await storage.users.find({ email });
 
     if (!user || !await bcrypt.compare(password, user.password)) {
       return res.status(401).json({ error: 'Invalid credentials' });
@@ -222,15 +287,14 @@ app.post('/api/auth/login', async (req, res) => {
 app.post('/api/auth/register', async (req, res) => {
   try {
     const { email, password, name } = req.body;
-    const users = await readCSV(FILES.users);
     
-    if (users.find(u => u.email === email)) {
+    if (await storage.users.find({ email })) {
       return res.status(400).json({ error: 'User already exists' });
     }
 
     const hashedPassword = await bcrypt.hash(password, 10);
     const newUser = {
-      id: `user-${Date.now()}`,
+      id: generateId('user'),
       email,
       password: hashedPassword,
       name,
@@ -238,7 +302,7 @@ app.post('/api/auth/register', async (req, res) => {
       created_at: new Date().toISOString()
     };
 
-    await appendToCSV(FILES.users, newUser, ['id', 'email', 'password', 'name', 'plan', 'created_at']);
+    await storage.users.insert(newUser);
     
     const token = jwt.sign({ userId: newUser.id }, JWT_SECRET, { expiresIn: '7d' });
     res.json({ 
@@ -255,17 +319,103 @@ app.post('/api/auth/register', async (req, res) => {
   }
 });
 
+// Link fields a user may change after creation
+const LINK_EDITABLE_FIELDS = ['original_url', 'title', 'description', 'campaign_id', 'domain_id', 'is_cloaked', 'cloak_title', 'cloak_description', 'expires_at', 'max_clicks', 'expired_redirect_url', 'tags', 'is_active', ...UTM_FIELDS, ...DEEP_LINK_FIELDS];
+
+function normalizeLinkField(field, value) {
+  switch (field) {
+    case 'is_cloaked':
+    case 'is_active':
+      return value === true || value === 'true';
+    case 'max_clicks':
+      return parseInt(value) > 0 ? parseInt(value) : null;
+    case 'tags':
+      return parseTags(Array.isArray(value) ? value.join(',') : value);
+    case 'utm_source':
+    case 'utm_medium':
+    case 'utm_campaign':
+    case 'utm_term':
+    case 'utm_content':
+      return String(value ?? '').trim();
+    case 'ios_app_url':
+    case 'ios_store_url':
+    case 'android_app_url':
+    case 'android_store_url':
+      return normalizeDeepLinkField(field, value);
+    default:
+      return value ?? '';
+  }
+}
+
+// A link may only use the caller's own domains and campaigns: host routing
+// serves it on its domain, and campaign stats and UTM templates follow
+// campaign_id. Returns why an id can't be used, or null; empty ids are fine.
+async function checkLinkReferences(userId, { domain_id, campaign_id }) {
+  if (domain_id && (typeof domain_id !== 'string' || !await storage.domains.find({ id: domain_id, user_id: userId }))) {
+    return 'Domain not found';
+  }
+  if (campaign_id && (typeof campaign_id !== 'string' || !await storage.campaigns.find({ id: campaign_id, user_id: userId }))) {
+    return 'Campaign not found';
+  }
+  return null;
+}
+
+// Visitors are sent to original_url and expired_redirect_url, so both must be
+// http(s); anything else (e.g. javascript:) would end up in a redirect or a
+// page's links. original_url is required unless a PATCH leaves it out.
+function checkLinkUrls(body, { partial = false } = {}) {
+  if (!partial || 'original_url' in body) {
+    if (!body.original_url) {
+      return 'original_url is required';
+    }
+    if (!isHttpUrl(body.original_url)) {
+      return 'original_url must be an http or https URL';
+    }
+  }
+  if (body.expired_redirect_url && !isHttpUrl(body.expired_redirect_url)) {
+    return 'expired_redirect_url must be an http or https URL';
+  }
+  return null;
+}
+
 // Links routes
 app.get('/api/links', authenticateToken, async (req, res) => {
   try {
-    const links = await readCSV(FILES.links);
-    const userLinks = links.filter(link => link.user_id === req.user.id);
+    const userLinks = await storage.links.all({ user_id: req.user.id });
     res.json(userLinks);
   } catch (error) {
     res.status(500).json({ error: 'Server error' });
   }
 });
 
+// Availability of an alias on a domain, for checking as the user types.
+// exclude_id skips the link being edited so its own code counts as available.
+app.get('/api/links/alias-availability', authenticateToken, async (req, res) => {
+  try {
+    const referenceError = await checkLinkReferences(req.user.id, { domain_id: req.query.domain_id });
+    if (referenceError) {
+      return res.status(400).json({ error: referenceError });
+    }
+
+    const alias = String(req.query.alias || '');
+    const aliasError = validateAlias(alias);
+    if (aliasError) {
+      return res.json({ alias, available: false, error: aliasError, suggestions: [] });
+    }
+
+    const takenCodes = takenCodesFor(await storage.links.all(), req.query.domain_id, req.query.exclude_id);
+    const available = !takenCodes.has(alias.toLowerCase());
+    res.json({
+      alias,
+      available,
+      error: available ? null : 'Alias is already taken',
+      suggestions: available ? [] : suggestAliases(alias, takenCodes)
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 app.post('/api/links', authenticateToken, async (req, res) => {
   try {
     const { 
@@ -278,19 +428,44 @@ app.post('/api/links', authenticateToken, async (req, res) => {
       cloak_title, 
       cloak_description,
       password,
-      expires_at 
+      expires_at,
+      max_clicks,
+      expired_redirect_url,
+      tags,
+      custom_alias
     } = req.body;
 
-    const links = await readCSV(FILES.links);
+    const urlError = checkLinkUrls(req.body);
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+
+    const referenceError = await checkLinkReferences(req.user.id, { domain_id, campaign_id });
+    if (referenceError) {
+      return res.status(400).json({ error: referenceError });
+    }
+
+    const takenCodes = takenCodesFor(await storage.links.all(), domain_id);
     let short_code;
-    
-    // Generate unique short code
-    do {
-      short_code = generateShortCode();
-    } while (links.find(link => link.short_code === short_code));
 
-    const newLink = {
-      id: `link-${Date.now()}`,
+    if (custom_alias) {
+      const aliasError = validateAlias(custom_alias);
+      if (aliasError) {
+        return res.status(400).json({ error: aliasError });
+      }
+      if (takenCodes.has(custom_alias.toLowerCase())) {
+        return res.status(409).json({
+          error: 'Alias is already taken',
+          suggestions: suggestAliases(custom_alias, takenCodes)
+        });
+      }
+      short_code = custom_alias;
+    } else {
+      short_code = generateUniqueShortCode(takenCodes);
+    }
+
+    const newLink = await storage.links.insert({
+      id: generateId('link'),
       user_id: req.user.id,
       original_url,
       short_code,
@@ -298,151 +473,1523 @@ app.post('/api/links', authenticateToken, async (req, res) => {
       description: description || '',
       campaign_id: campaign_id || '',
       domain_id: domain_id || '',
-      is_cloaked: is_cloaked || false,
+      is_cloaked: normalizeLinkField('is_cloaked', is_cloaked),
       cloak_title: cloak_title || '',
       cloak_description: cloak_description || '',
       password_hash: password ? await bcrypt.hash(password, 10) : '',
       expires_at: expires_at || '',
+      max_clicks: normalizeLinkField('max_clicks', max_clicks),
+      expired_redirect_url: expired_redirect_url || '',
+      tags: normalizeLinkField('tags', tags),
+      ...Object.fromEntries(UTM_FIELDS.map(field => [field, normalizeLinkField(field, req.body[field])])),
+      ...Object.fromEntries(DEEP_LINK_FIELDS.map(field => [field, normalizeLinkField(field, req.body[field])])),
       is_active: true,
       click_count: 0,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
-    };
-
-    await appendToCSV(FILES.links, newLink, ['id', 'user_id', 'original_url', 'short_code', 'title', 'description', 'campaign_id', 'domain_id', 'is_cloaked', 'cloak_title', 'cloak_description', 'password_hash', 'expires_at', 'is_active', 'click_count', 'created_at', 'updated_at']);
+    });
     
     res.json(newLink);
   } catch (error) {
+    if (error instanceof DeepLinkError) {
+      return res.status(400).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-// Campaigns routes
-app.get('/api/campaigns', authenticateToken, async (req, res) => {
+// Bulk import from a CSV upload (multipart field "file").
+// Optional fields: mapping (JSON of import field -> CSV column, guessed from the
+// headers when omitted) and dry_run ("true" validates without creating anything).
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 1 }
+}).single('file');
+
+function receiveImportFile(req, res, next) {
+  importUpload(req, res, error => {
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+    next();
+  });
+}
+
+app.post('/api/links/import', authenticateToken, receiveImportFile, async (req, res) => {
   try {
-    const campaigns = await readCSV(FILES.campaigns);
-    const userCampaigns = campaigns.filter(campaign => campaign.user_id === req.user.id);
-    res.json(userCampaigns);
+    if (!req.file) {
+      return res.status(400).json({ error: 'A CSV file is required' });
+    }
+
+    const dryRun = req.body.dry_run === 'true';
+    const { columns, records } = await parseCsv(req.file.buffer);
+
+    let mapping;
+    try {
+      mapping = req.body.mapping ? JSON.parse(req.body.mapping) : guessMapping(columns);
+    } catch (error) {
+      throw new ImportError('mapping must be valid JSON');
+    }
+    checkMapping(mapping, columns);
+
+    const [links, campaigns] = await Promise.all([
+      storage.links.all(),
+      storage.campaigns.all({ user_id: req.user.id })
+    ]);
+    // Imported links go on the default domain
+    const takenCodes = takenCodesFor(links);
+    const rows = validateImportRows(records, mapping, { takenCodes, validateAlias });
+    const validRows = rows.filter(row => row.errors.length === 0);
+
+    // Campaigns are matched by name, ignoring case; unknown names become new campaigns
+    const campaignsByName = new Map(campaigns.map(campaign => [campaign.name.toLowerCase(), campaign]));
+    const newCampaigns = new Map();
+    for (const { fields } of validRows) {
+      const key = fields.campaign.toLowerCase();
+      if (fields.campaign && !campaignsByName.has(key) && !newCampaigns.has(key)) {
+        newCampaigns.set(key, fields.campaign);
+      }
+    }
+    const newCampaignNames = Array.from(newCampaigns.values());
+
+    if (!dryRun) {
+      // Rows without an alias get a generated short code that is free in storage and in the file
+      for (const row of validRows) {
+        if (row.fields.short_code) {
+          takenCodes.add(row.fields.short_code.toLowerCase());
+        }
+      }
+      for (const row of validRows) {
+        if (!row.fields.short_code) {
+          row.fields.short_code = generateUniqueShortCode(takenCodes);
+          takenCodes.add(row.fields.short_code.toLowerCase());
+        }
+      }
+
+      const now = new Date().toISOString();
+      for (const name of newCampaignNames) {
+        const campaign = {
+          id: generateId('campaign'),
+          user_id: req.user.id,
+          name,
+          description: '',
+          is_active: true,
+          total_clicks: 0,
+          unique_clicks: 0,
+          conversion_rate: 0,
+          archived_at: '',
+          created_at: now,
+          updated_at: now
+        };
+        campaignsByName.set(name.toLowerCase(), campaign);
+        await storage.campaigns.insert(campaign);
+      }
+
+      await storage.links.insertMany(validRows.map(({ fields }) => ({
+        id: generateId('link'),
+        user_id: req.user.id,
+        original_url: fields.original_url,
+        short_code: fields.short_code,
+        title: fields.title,
+        description: '',
+        campaign_id: fields.campaign ? campaignsByName.get(fields.campaign.toLowerCase()).id : '',
+        domain_id: '',
+        is_cloaked: false,
+        cloak_title: '',
+        cloak_description: '',
+        password_hash: '',
+        expires_at: fields.expires_at,
+        max_clicks: null,
+        expired_redirect_url: '',
+        tags: fields.tags,
+        is_active: true,
+        click_count: 0,
+        created_at: now,
+        updated_at: now
+      })));
+    }
+
+    res.json({
+      dryRun,
+      columns,
+      mapping,
+      summary: {
+        total: rows.length,
+        valid: validRows.length,
+        invalid: rows.length - validRows.length,
+        created: dryRun ? 0 : validRows.length,
+        newCampaigns: newCampaignNames
+      },
+      rows: rows.map(({ row, errors, fields }) => ({
+        row,
+        status: errors.length > 0 ? 'error' : dryRun ? 'valid' : 'created',
+        errors,
+        ...fields
+      }))
+    });
   } catch (error) {
+    if (error instanceof ImportError) {
+      return res.status(400).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.post('/api/campaigns', authenticateToken, async (req, res) => {
+// PUT replaces every editable field, PATCH only the ones sent
+function updateLinkHandler({ partial }) {
+  return async (req, res) => {
+    try {
+      const link = await storage.links.find({ id: req.params.id, user_id: req.user.id });
+
+      if (!link) {
+        return res.status(404).json({ error: 'Link not found' });
+      }
+
+      const { short_code, password, remove_password } = req.body;
+      const changes = {};
+
+      const urlError = checkLinkUrls(req.body, { partial });
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+
+      const referenceError = await checkLinkReferences(req.user.id, req.body);
+      if (referenceError) {
+        return res.status(400).json({ error: referenceError });
+      }
+
+      // The short code only changes when a different one is sent explicitly
+      const codeChanged = short_code !== undefined && short_code !== link.short_code;
+      const domainId = 'domain_id' in req.body ? req.body.domain_id || '' : link.domain_id || '';
+      if (codeChanged) {
+        const aliasError = validateAlias(short_code);
+        if (aliasError) {
+          return res.status(400).json({ error: aliasError });
+        }
+        changes.short_code = short_code;
+      }
+
+      // Moving a link to another domain can collide there even with an unchanged code
+      if (codeChanged || domainId !== (link.domain_id || '')) {
+        const code = codeChanged ? short_code : link.short_code;
+        const takenCodes = takenCodesFor(await storage.links.all(), domainId, link.id);
+        if (takenCodes.has(code.toLowerCase())) {
+          return res.status(409).json({
+            error: 'Short code is already taken',
+            suggestions: suggestAliases(code, takenCodes)
+          });
+        }
+      }
+
+      for (const field of LINK_EDITABLE_FIELDS) {
+        if (field in req.body) {
+          changes[field] = normalizeLinkField(field, req.body[field]);
+        } else if (!partial) {
+          changes[field] = normalizeLinkField(field, field === 'is_active' ? true : undefined);
+        }
+      }
+
+      if (remove_password) {
+        changes.password_hash = '';
+      } else if (password) {
+        changes.password_hash = await bcrypt.hash(password, 10);
+      }
+
+      changes.updated_at = new Date().toISOString();
+
+      res.json(await storage.links.update(link.id, changes));
+    } catch (error) {
+      if (error instanceof DeepLinkError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Server error' });
+    }
+  };
+}
+
+app.put('/api/links/:id', authenticateToken, updateLinkHandler({ partial: false }));
+app.patch('/api/links/:id', authenticateToken, updateLinkHandler({ partial: true }));
+
+app.delete('/api/links/:id', authenticateToken, async (req, res) => {
   try {
-    const { name, description } = req.body;
+    const link = await storage.links.find({ id: req.params.id, user_id: req.user.id });
 
-    const newCampaign = {
-      id: `campaign-${Date.now()}`,
-      user_id: req.user.id,
-      name,
-      description: description || '',
-      is_active: true,
-      total_clicks: 0,
-      unique_clicks: 0,
-      conversion_rate: 0,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
 
-    await appendToCSV(FILES.campaigns, newCampaign, ['id', 'user_id', 'name', 'description', 'is_active', 'total_clicks', 'unique_clicks', 'conversion_rate', 'created_at', 'updated_at']);
-    
-    res.json(newCampaign);
+    await storage.links.remove(link.id);
+    capReservations.delete(link.id);
+    await storage.variants.removeMany((await storage.variants.all({ link_id: link.id })).map(variant => variant.id));
+    await storage.rules.removeMany((await storage.rules.all({ link_id: link.id })).map(rule => rule.id));
+
+    res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-// Domains routes
-app.get('/api/domains', authenticateToken, async (req, res) => {
+// A/B destination variants of a link
+app.get('/api/links/:id/variants', authenticateToken, async (req, res) => {
   try {
-    const domains = await readCSV(FILES.domains);
-    const userDomains = domains.filter(domain => domain.user_id === req.user.id);
-    res.json(userDomains);
+    const link = await storage.links.find({ id: req.params.id, user_id: req.user.id });
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+    res.json(await storage.variants.all({ link_id: link.id }));
   } catch (error) {
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.post('/api/domains', authenticateToken, async (req, res) => {
+// Replaces the link's variants with the list in the body. Entries with the id
+// of an existing variant update it; the rest are created, and any existing
+// variant left out is deleted. An empty list turns A/B testing off.
+app.put('/api/links/:id/variants', authenticateToken, async (req, res) => {
   try {
-    const { domain } = req.body;
+    const link = await storage.links.find({ id: req.params.id, user_id: req.user.id });
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
 
-    const newDomain = {
-      id: `domain-${Date.now()}`,
-      user_id: req.user.id,
-      domain,
-      is_verified: false,
-      ssl_enabled: false,
-      is_active: true,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
+    const variants = parseVariants(req.body.variants);
+    const existing = await storage.variants.all({ link_id: link.id });
+    const existingIds = new Set(existing.map(variant => variant.id));
+    const keptIds = new Set(variants.map(variant => variant.id).filter(id => existingIds.has(id)));
+    const now = new Date().toISOString();
 
-    await appendToCSV(FILES.domains, newDomain, ['id', 'user_id', 'domain', 'is_verified', 'ssl_enabled', 'is_active', 'created_at', 'updated_at']);
-    
-    res.json(newDomain);
+    await storage.variants.removeMany(existing.filter(variant => !keptIds.has(variant.id)).map(variant => variant.id));
+    for (const { id, label, url, weight } of variants) {
+      if (keptIds.has(id)) {
+        await storage.variants.update(id, { label, url, weight, updated_at: now });
+      } else {
+        await storage.variants.insert({
+          id: generateId('variant'),
+          link_id: link.id,
+          label,
+          url,
+          weight,
+          created_at: now,
+          updated_at: now
+        });
+      }
+    }
+
+    res.json(await storage.variants.all({ link_id: link.id }));
   } catch (error) {
+    if (error instanceof VariantError) {
+      return res.status(400).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-// Analytics route
-app.get('/api/analytics', authenticateToken, async (req, res) => {
+// Targeting rules of a link, in evaluation order
+app.get('/api/links/:id/rules', authenticateToken, async (req, res) => {
   try {
-    const links = await readCSV(FILES.links);
-    const clicks = await readCSV(FILES.clicks);
-    const campaigns = await readCSV(FILES.campaigns);
+    const link = await storage.links.find({ id: req.params.id, user_id: req.user.id });
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+    const rules = await storage.rules.all({ link_id: link.id });
+    res.json(rules.sort((a, b) => a.position - b.position));
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-    const userLinks = links.filter(link => link.user_id === req.user.id);
-    const userLinkIds = userLinks.map(link => link.id);
-    const userClicks = clicks.filter(click => userLinkIds.includes(click.link_id));
+// Replaces the link's rules with the ordered list in the body, the same way
+// variants are replaced. An empty list removes targeting.
+app.put('/api/links/:id/rules', authenticateToken, async (req, res) => {
+  try {
+    const link = await storage.links.find({ id: req.params.id, user_id: req.user.id });
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
 
-    // Calculate analytics
-    const totalClicks = userClicks.length;
-    const uniqueClicks = new Set(userClicks.map(click => click.ip_address)).size;
+    const rules = parseRules(req.body.rules);
+    const existing = await storage.rules.all({ link_id: link.id });
+    const existingIds = new Set(existing.map(rule => rule.id));
+    const keptIds = new Set(rules.map(rule => rule.id).filter(id => existingIds.has(id)));
+    const now = new Date().toISOString();
 
-    const topLinks = userLinks
-      .sort((a, b) => parseInt(b.click_count) - parseInt(a.click_count))
-      .slice(0, 5)
-      .map(link => ({
-        short_code: link.short_code,
-        title: link.title || link.original_url,
-        clicks: parseInt(link.click_count)
-      }));
+    await storage.rules.removeMany(existing.filter(rule => !keptIds.has(rule.id)).map(rule => rule.id));
+    for (const { id, ...fields } of rules) {
+      if (keptIds.has(id)) {
+        await storage.rules.update(id, { ...fields, updated_at: now });
+      } else {
+        await storage.rules.insert({
+          id: generateId('rule'),
+          link_id: link.id,
+          ...fields,
+          created_at: now,
+          updated_at: now
+        });
+      }
+    }
 
-    const deviceTypes = userClicks.reduce((acc, click) => {
-      acc[click.device_type] = (acc[click.device_type] || 0) + 1;
-      return acc;
-    }, {});
+    const saved = await storage.rules.all({ link_id: link.id });
+    res.json(saved.sort((a, b) => a.position - b.position));
+  } catch (error) {
+    if (error instanceof RuleError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-    const clicksByDay = userClicks.reduce((acc, click) => {
-      const date = new Date(click.created_at).toISOString().split('T')[0];
-      acc[date] = (acc[date] || 0) + 1;
-      return acc;
-    }, {});
+// Where a request would be sent, without recording a click. Evaluates the
+// rules in the body (so unsaved edits can be tried) or else the saved ones.
+// user_agent, accept_language and country default to this request's own;
+// at is an ISO timestamp and defaults to now.
+app.post('/api/links/:id/rules/simulate', authenticateToken, async (req, res) => {
+  try {
+    const link = await storage.links.find({ id: req.params.id, user_id: req.user.id });
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const rules = req.body.rules !== undefined
+      ? parseRules(req.body.rules)
+      : (await storage.rules.all({ link_id: link.id })).sort((a, b) => a.position - b.position);
+
+    const now = req.body.at ? new Date(req.body.at) : new Date();
+    if (isNaN(now.getTime())) {
+      return res.status(400).json({ error: 'at must be an ISO date and time' });
+    }
+
+    const userAgent = req.body.user_agent ?? req.headers['user-agent'] ?? '';
+    const context = targetingContext({
+      uaResult: new UAParser(userAgent).getResult(),
+      country: req.body.country ? String(req.body.country).toUpperCase() : geoIp.lookup(req.ip).country,
+      acceptLanguage: req.body.accept_language ?? req.headers['accept-language'],
+      now
+    });
+    const rule = findMatchingRule(rules, context);
+    const variants = rule ? [] : await storage.variants.all({ link_id: link.id });
 
     res.json({
-      totalClicks,
-      uniqueClicks,
-      topLinks,
-      deviceTypes: Object.entries(deviceTypes).map(([device, clicks]) => ({ device, clicks })),
-      clicksByDay: Object.entries(clicksByDay).map(([date, clicks]) => ({ date, clicks }))
+      context: { ...context, now: now.toISOString() },
+      results: rules.map(candidate => ({ position: candidate.position, label: candidate.label, matched: matchesRule(candidate, context) })),
+      matchedPosition: rule ? rule.position : null,
+      destination: await destinationFor(link, rule?.destination_url),
+      // Without a matching rule, live A/B variants take over from original_url
+      abTest: variants.some(variant => variant.weight > 0)
     });
   } catch (error) {
+    if (error instanceof RuleError) {
+      return res.status(400).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Server error' });
   }
 });
 
+// The short URL of a link. Links on a custom domain are only served there, so
+// their URL uses that domain even before it is verified.
+async function shortUrlFor(req, link) {
+  const domain = link.domain_id && await storage.domains.find({ id: link.domain_id });
+  const baseUrl = domain
+    ? `https://${domain.domain}`
+    : PUBLIC_BASE_URL || `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}/${encodeURIComponent(link.short_code)}`;
+}
 
-// Serve React app for all other routes
-app.get('*', (req, res) => {
-  res.sendFile(path.join(__dirname, '../dist/index.html'));
+// QR code for a link's short URL, as SVG or PNG (see parseQrOptions for the
+// query options). The encoded URL carries src=qr so scans are attributed.
+app.get('/api/links/:id/qr', authenticateToken, async (req, res) => {
+  try {
+    const link = await storage.links.find({ id: req.params.id, user_id: req.user.id });
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const options = parseQrOptions(req.query);
+    const url = new URL(await shortUrlFor(req, link));
+    url.searchParams.set('src', 'qr');
+    const { contentType, body } = await renderQrCode(url.toString(), options);
+
+    res.set('Content-Type', contentType);
+    res.set('Content-Disposition', `inline; filename="${link.short_code}-qr.${options.format}"`);
+    res.set('Cache-Control', 'no-store');
+    res.send(body);
+  } catch (error) {
+    if (error instanceof QrCodeError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Server error' });
+  }
 });
 
-// Initialize and start server
-initializeDataFiles().then(() => {
-  app.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`);
-  });
+// Bot clicks are left out of reporting unless the query has include_bots=true
+function reportableClicks(req, clicks) {
+  return req.query.include_bots === 'true' ? clicks : clicks.filter(click => !click.is_bot);
+}
+
+// Campaign statistics are derived from the clicks and conversions on the campaign's links at read time
+function withCampaignStats(campaign, links, clicks, conversions) {
+  const linkIds = new Set(links.filter(link => link.campaign_id === campaign.id).map(link => link.id));
+  const campaignClicks = clicks.filter(click => linkIds.has(click.link_id));
+  const { conversions: conversionCount, conversionRate, revenue } = summarizeConversions(
+    conversions.filter(conversion => linkIds.has(conversion.link_id)),
+    campaignClicks.length
+  );
+
+  return {
+    ...campaign,
+    archived_at: campaign.archived_at || null,
+    link_count: linkIds.size,
+    total_clicks: campaignClicks.length,
+    unique_clicks: countVisitors(campaignClicks),
+    conversions: conversionCount,
+    conversion_rate: conversionRate || 0,
+    revenue
+  };
+}
+
+async function respondWithCampaign(req, res, campaign) {
+  const links = await storage.links.all({ campaign_id: campaign.id });
+  const linkIds = links.map(link => link.id);
+  const [clicks, conversions] = await Promise.all([
+    storage.clicks.all({ link_id: linkIds }),
+    storage.conversions.all({ link_id: linkIds })
+  ]);
+  res.json(withCampaignStats(campaign, links, reportableClicks(req, clicks), conversions));
+}
+
+// Campaigns routes
+app.get('/api/campaigns', authenticateToken, async (req, res) => {
+  try {
+    const [userCampaigns, userLinks] = await Promise.all([
+      storage.campaigns.all({ user_id: req.user.id }),
+      storage.links.all({ user_id: req.user.id })
+    ]);
+    // Only clicks on links that belong to one of the campaigns count
+    const linkIds = userLinks.filter(link => link.campaign_id).map(link => link.id);
+    const [clicks, conversions] = await Promise.all([
+      storage.clicks.all({ link_id: linkIds }),
+      storage.conversions.all({ link_id: linkIds })
+    ]);
+    const reportedClicks = reportableClicks(req, clicks);
+    res.json(userCampaigns.map(campaign => withCampaignStats(campaign, userLinks, reportedClicks, conversions)));
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/campaigns', authenticateToken, async (req, res) => {
+  try {
+    const { name, description } = req.body;
+
+    const newCampaign = await storage.campaigns.insert({
+      id: generateId('campaign'),
+      user_id: req.user.id,
+      name,
+      description: description || '',
+      ...Object.fromEntries(UTM_FIELDS.map(field => [field, String(req.body[field] ?? '').trim()])),
+      is_active: true,
+      total_clicks: 0,
+      unique_clicks: 0,
+      conversion_rate: 0,
+      archived_at: '',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+    
+    res.json(newCampaign);
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.put('/api/campaigns/:id', authenticateToken, async (req, res) => {
+  try {
+    const campaign = await storage.campaigns.find({ id: req.params.id, user_id: req.user.id });
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    const { name, description, is_active } = req.body;
+    const changes = {};
+
+    if (name !== undefined) {
+      if (!name) {
+        return res.status(400).json({ error: 'Campaign name is required' });
+      }
+      changes.name = name;
+    }
+    if (description !== undefined) {
+      changes.description = description || '';
+    }
+    if (is_active !== undefined) {
+      changes.is_active = is_active === true || is_active === 'true';
+    }
+    for (const field of UTM_FIELDS) {
+      if (req.body[field] !== undefined) {
+        changes[field] = String(req.body[field] ?? '').trim();
+      }
+    }
+    changes.updated_at = new Date().toISOString();
+
+    await respondWithCampaign(req, res, await storage.campaigns.update(campaign.id, changes));
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/campaigns/:id/archive', authenticateToken, async (req, res) => {
+  try {
+    const campaign = await storage.campaigns.find({ id: req.params.id, user_id: req.user.id });
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    const now = new Date().toISOString();
+    const archived = await storage.campaigns.update(campaign.id, {
+      archived_at: now,
+      is_active: false,
+      updated_at: now
+    });
+
+    await respondWithCampaign(req, res, archived);
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/campaigns/:id/unarchive', authenticateToken, async (req, res) => {
+  try {
+    const campaign = await storage.campaigns.find({ id: req.params.id, user_id: req.user.id });
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    const restored = await storage.campaigns.update(campaign.id, {
+      archived_at: '',
+      is_active: true,
+      updated_at: new Date().toISOString()
+    });
+
+    await respondWithCampaign(req, res, restored);
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/campaigns/:id', authenticateToken, async (req, res) => {
+  try {
+    const campaign = await storage.campaigns.find({ id: req.params.id, user_id: req.user.id });
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    await storage.campaigns.remove(campaign.id);
+
+    // Links outlive their campaign; just detach them
+    await storage.links.updateWhere(
+      { campaign_id: campaign.id },
+      { campaign_id: '', updated_at: new Date().toISOString() }
+    );
+
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Domains routes
+// Domains are returned with the DNS records the user needs to add
+function withDnsRecords(domain) {
+  return { ...domain, dns_records: verificationRecords(domain, DOMAIN_CNAME_TARGET) };
+}
+
+app.get('/api/domains', authenticateToken, async (req, res) => {
+  try {
+    const userDomains = await storage.domains.all({ user_id: req.user.id });
+    res.json(userDomains.map(withDnsRecords));
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/domains', authenticateToken, async (req, res) => {
+  try {
+    const domain = String(req.body.domain || '').trim().toLowerCase().replace(/\.$/, '');
+
+    if (!/^(?=.{4,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/.test(domain)) {
+      return res.status(400).json({ error: 'Enter a valid domain name, such as links.example.com' });
+    }
+
+    // Unverified claims by other accounts don't block anyone; only verification proves ownership
+    const existing = await storage.domains.all({ domain });
+    if (existing.some(d => d.user_id === req.user.id || d.is_verified)) {
+      return res.status(409).json({ error: 'Domain has already been added' });
+    }
+
+    const newDomain = await storage.domains.insert({
+      id: generateId('domain'),
+      user_id: req.user.id,
+      domain,
+      is_verified: false,
+      verification_token: createVerificationToken(),
+      verified_at: '',
+      last_checked_at: '',
+      verification_error: '',
+      root_redirect_url: '',
+      logo_url: '',
+      brand_color: '',
+      background_color: '',
+      not_found_title: '',
+      not_found_message: '',
+      expired_title: '',
+      expired_message: '',
+      ssl_enabled: false,
+      is_active: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+    
+    res.json(withDnsRecords(newDomain));
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Root redirect and branding for the domain's public pages
+app.put('/api/domains/:id', authenticateToken, async (req, res) => {
+  try {
+    const domain = await storage.domains.find({ id: req.params.id, user_id: req.user.id });
+
+    if (!domain) {
+      return res.status(404).json({ error: 'Domain not found' });
+    }
+
+    const changes = readDomainSettings(req.body);
+    changes.updated_at = new Date().toISOString();
+
+    const updated = await storage.domains.update(domain.id, changes);
+    hostRouter.invalidate();
+    res.json(withDnsRecords(updated));
+  } catch (error) {
+    if (error instanceof DomainSettingsError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Look up the domain's DNS records now and store the outcome
+app.post('/api/domains/:id/verify', authenticateToken, async (req, res) => {
+  try {
+    const domain = await storage.domains.find({ id: req.params.id, user_id: req.user.id });
+
+    if (!domain) {
+      return res.status(404).json({ error: 'Domain not found' });
+    }
+
+    const { domain: updated, checks } = await domainVerifier.verify(domain);
+    hostRouter.invalidate();
+    res.json({ ...withDnsRecords(updated), checks });
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Analytics routes
+// All accept from, to, granularity (hour/day/week/month) and tz query parameters.
+// Returns null after sending a 400 when the query is invalid.
+function readAnalyticsRange(req, res, options) {
+  try {
+    return parseAnalyticsRange(req.query, options);
+  } catch (error) {
+    if (error instanceof AnalyticsQueryError) {
+      res.status(400).json({ error: error.message });
+      return null;
+    }
+    throw error;
+  }
+}
+
+// The user's links, narrowed by the optional link_id and campaign_id query parameters
+async function findFilteredLinks(req) {
+  const where = { user_id: req.user.id };
+  if (req.query.link_id) {
+    where.id = req.query.link_id;
+  }
+  if (req.query.campaign_id) {
+    where.campaign_id = req.query.campaign_id;
+  }
+  return storage.links.all(where);
+}
+
+app.get('/api/analytics', authenticateToken, async (req, res) => {
+  try {
+    const range = readAnalyticsRange(req, res);
+    if (!range) {
+      return;
+    }
+
+    const userLinks = await findFilteredLinks(req);
+    const userLinkIds = userLinks.map(link => link.id);
+    const [allLinkClicks, conversions] = await Promise.all([
+      storage.clicks.all({ link_id: userLinkIds }),
+      storage.conversions.all({ link_id: userLinkIds })
+    ]);
+    const userConversions = conversions.filter(conversion => isInRange(conversion.created_at, range));
+    const linkClicks = reportableClicks(req, allLinkClicks);
+    const botClicks = allLinkClicks.filter(click => click.is_bot && isInRange(click.created_at, range)).length;
+    const userClicks = linkClicks.filter(click => isInRange(click.created_at, range));
+
+    const previous = previousRange(range);
+    const previousClicks = linkClicks.filter(click => isInRange(click.created_at, previous));
+
+    // Calculate analytics
+    const currentSummary = summarizePeriod(userClicks, userLinks, range);
+    const previousSummary = summarizePeriod(previousClicks, userLinks, previous);
+    const { totalClicks, uniqueClicks } = currentSummary;
+
+    const clicksByLink = userClicks.reduce((acc, click) => {
+      (acc[click.link_id] = acc[click.link_id] || []).push(click);
+      return acc;
+    }, {});
+    const conversionsByLink = userConversions.reduce((acc, conversion) => {
+      (acc[conversion.link_id] = acc[conversion.link_id] || []).push(conversion);
+      return acc;
+    }, {});
+
+    const linkStats = userLinks
+      .map(link => {
+        const clicksForLink = clicksByLink[link.id] || [];
+        const linkUniqueClicks = countVisitors(clicksForLink);
+        return {
+          id: link.id,
+          short_code: link.short_code,
+          title: link.title || link.original_url,
+          clicks: clicksForLink.length,
+          uniqueClicks: linkUniqueClicks,
+          uniqueRate: uniqueRate(clicksForLink.length, linkUniqueClicks),
+          share: totalClicks > 0 ? Math.round((clicksForLink.length / totalClicks) * 1000) / 10 : null,
+          ...summarizeConversions(conversionsByLink[link.id] || [], clicksForLink.length),
+          status: linkStatus(link)
+        };
+      })
+      .sort((a, b) => b.clicks - a.clicks);
+
+    const topLinks = linkStats
+      .slice(0, 5)
+      .map(({ id, short_code, title, clicks }) => ({ id, short_code, title, clicks }));
+
+    const deviceTypes = userClicks.reduce((acc, click) => {
+      acc[click.device_type] = (acc[click.device_type] || 0) + 1;
+      return acc;
+    }, {});
+
+    res.json({
+      range: serializeRange(range),
+      previousRange: serializeRange(previous),
+      totalClicks,
+      uniqueClicks,
+      botClicks,
+      ...summarizeConversions(userConversions, totalClicks),
+      metrics: comparePeriods(currentSummary, previousSummary),
+      topLinks,
+      linkStats: linkStats.filter(link => link.clicks > 0).slice(0, 50),
+      deviceTypes: Object.entries(deviceTypes).map(([device, clicks]) => ({ device, clicks })),
+      // Every country, so the map can shade all of them
+      countries: countBy(userClicks, click => click.country, { limit: Infinity }),
+      cities: countBy(userClicks, cityLabel),
+      clicksByDay: buildTimeSeries(userClicks, range)
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// The links' reportable clicks in the range, read from storage as the export consumes them
+async function* exportClicks(req, links, range) {
+  const includeBots = req.query.include_bots === 'true';
+  for await (const click of storage.clicks.iterate({ link_id: links.map(link => link.id) })) {
+    if ((includeBots || !click.is_bot) && isInRange(click.created_at, range)) {
+      yield click;
+    }
+  }
+}
+
+// Downloads the clicks, links or timeseries report as csv (default) or ndjson
+app.get('/api/analytics/export/:report', authenticateToken, async (req, res) => {
+  try {
+    const report = EXPORT_REPORTS[req.params.report];
+    if (!report) {
+      return res.status(404).json({ error: 'Unknown report' });
+    }
+
+    const format = req.query.format || 'csv';
+    if (!EXPORT_FORMATS[format]) {
+      return res.status(400).json({ error: `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    }
+
+    // Only the timeseries report is split into buckets, so only it has a bucket limit
+    const range = readAnalyticsRange(req, res, { limitBuckets: req.params.report === 'timeseries' });
+    if (!range) {
+      return;
+    }
+
+    const links = await findFilteredLinks(req);
+
+    const day = { tz: range.tz, granularity: 'day' };
+    const filename = `linktracker-${req.params.report}-${bucketFor(range.from, day)}-to-${bucketFor(range.to, day)}`;
+
+    await streamExport(res, {
+      format,
+      filename,
+      columns: report.columns,
+      rows: report.rows(links, exportClicks(req, links, range), range)
+    });
+  } catch (error) {
+    console.error('Export failed:', error);
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+});
+
+app.get('/api/links/:id/analytics', authenticateToken, async (req, res) => {
+  try {
+    const link = await storage.links.find({ id: req.params.id, user_id: req.user.id });
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const range = readAnalyticsRange(req, res);
+    if (!range) {
+      return;
+    }
+
+    const previous = previousRange(range);
+    const [allLinkClicks, linkConversions, variants, rules] = await Promise.all([
+      storage.clicks.all({ link_id: link.id }),
+      storage.conversions.all({ link_id: link.id }),
+      storage.variants.all({ link_id: link.id }),
+      storage.rules.all({ link_id: link.id })
+    ]);
+    const ruleLabels = new Map(rules.map(rule => [rule.id, rule.label]));
+    const linkClicks = reportableClicks(req, allLinkClicks);
+    const botClicks = allLinkClicks.filter(click => click.is_bot && isInRange(click.created_at, range)).length;
+    const clicks = linkClicks.filter(click => isInRange(click.created_at, range));
+    const previousClicks = linkClicks.filter(click => isInRange(click.created_at, previous));
+
+    const conversions = linkConversions.filter(conversion => isInRange(conversion.created_at, range));
+
+    const currentSummary = summarizePeriod(clicks, [link], range);
+    const previousSummary = summarizePeriod(previousClicks, [link], previous);
+    const { totalClicks, uniqueClicks } = currentSummary;
+
+    res.json({
+      link: {
+        id: link.id,
+        short_code: link.short_code,
+        title: link.title || link.original_url,
+        original_url: link.original_url,
+        created_at: link.created_at,
+        status: linkStatus(link)
+      },
+      range: serializeRange(range),
+      previousRange: serializeRange(previous),
+      totalClicks,
+      uniqueClicks,
+      botClicks,
+      ...summarizeConversions(conversions, totalClicks),
+      metrics: comparePeriods(currentSummary, previousSummary, ['totalClicks', 'uniqueClicks', 'uniqueRate']),
+      clicksByDay: buildTimeSeries(clicks, range),
+      referrers: countBy(clicks, click => referrerHost(click.referer), { fallback: 'Direct' }),
+      devices: countBy(clicks, click => click.device_type),
+      browsers: countBy(clicks, click => click.browser),
+      operatingSystems: countBy(clicks, click => click.os),
+      countries: countBy(clicks, click => click.country),
+      cities: countBy(clicks, cityLabel),
+      variants: compareVariants(variants, clicks, conversions),
+      // Clicks sent by each targeting rule; clicks that matched no rule are left out
+      rules: countBy(clicks.filter(click => click.rule_id), click => ruleLabels.get(click.rule_id) || 'Removed rule'),
+      sources: countBy(clicks, click => click.source, { fallback: 'Untagged' }),
+      recentClicks: clicks
+        .slice(-20)
+        .reverse()
+        .map(click => ({
+          id: click.id,
+          created_at: click.created_at,
+          referer: click.referer,
+          device_type: click.device_type,
+          browser: click.browser,
+          os: click.os,
+          country: click.country,
+          city: click.city,
+          is_bot: click.is_bot,
+          bot_name: click.bot_name,
+          variant_id: click.variant_id,
+          rule_id: click.rule_id,
+          source: click.source
+        }))
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Public page helpers
+function escapeHtml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderPage(title, body, branding = {}) {
+  const accent = HEX_COLOR_PATTERN.test(branding.brand_color) ? branding.brand_color : '#2563eb';
+  const background = HEX_COLOR_PATTERN.test(branding.background_color) ? branding.background_color : '#f3f4f6';
+  const logo = branding.logo_url ? `<img class="logo" src="${escapeHtml(branding.logo_url)}" alt="" />` : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <meta name="robots" content="noindex" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: ${background}; font-family: system-ui, -apple-system, sans-serif; color: #111827; }
+    .card { width: 100%; max-width: 380px; margin: 16px; padding: 32px; background: #fff; border-radius: 12px; box-shadow: 0 4px 24px rgba(0, 0, 0, 0.08); }
+    h1 { margin: 0 0 8px; font-size: 20px; }
+    p { margin: 0 0 20px; color: #4b5563; font-size: 14px; }
+    input { box-sizing: border-box; width: 100%; padding: 10px 12px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 14px; }
+    button, .button { width: 100%; margin-top: 12px; padding: 10px 12px; border: 0; border-radius: 6px; background: ${accent}; color: #fff; font-size: 14px; font-weight: 600; cursor: pointer; }
+    button:hover, .button:hover { filter: brightness(0.9); }
+    .button { display: block; box-sizing: border-box; text-align: center; text-decoration: none; }
+    .button.secondary { background: #fff; color: ${accent}; border: 1px solid ${accent}; }
+    .logo { display: block; max-width: 160px; max-height: 48px; margin: 0 0 20px; }
+    .error { margin: 0 0 16px; padding: 10px 12px; border-radius: 6px; background: #fef2f2; color: #b91c1c; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    ${logo}
+    ${body}
+  </div>
+</body>
+</html>`;
+}
+
+// Public pages use the branding of the custom domain they are served on, if any.
+// Their CSP allows remote logos, and off-site redirects after the unlock form,
+// which helmet's default img-src and form-action would block.
+// scriptNonce allows the page's one inline script, if it has one.
+function sendPublicPage(res, status, title, body, { scriptNonce } = {}) {
+  const scriptSrc = scriptNonce ? `; script-src 'nonce-${scriptNonce}'` : '';
+  res.set('Content-Security-Policy', `default-src 'none'; style-src 'unsafe-inline'; img-src https: data:; form-action 'self' https: http:; frame-ancestors 'none'${scriptSrc}`);
+  res.status(status).send(renderPage(title, body, res.locals.customDomain || {}));
+}
+
+function sendUnlockPage(req, res, status, link, error) {
+  const source = clickSource(req);
+  sendPublicPage(res, status, 'Protected Link', `
+    <h1>This link is password protected</h1>
+    <p>Enter the password to continue.</p>
+    ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+    <form method="POST" action="/${encodeURIComponent(link.short_code)}/unlock${source ? `?src=${source}` : ''}">
+      <input type="password" name="password" placeholder="Password" autofocus required />
+      <button type="submit">Unlock</button>
+    </form>`);
+}
+
+function sendExpiredPage(res) {
+  const branding = res.locals.customDomain || {};
+  const title = branding.expired_title || 'This link has expired';
+  sendPublicPage(res, 410, 'Link Expired', `
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(branding.expired_message || 'The link you followed is no longer available.')}</p>`);
+}
+
+function sendNotFoundPage(res) {
+  const branding = res.locals.customDomain || {};
+  const title = branding.not_found_title || 'Link not found';
+  sendPublicPage(res, 404, 'Not Found', `
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(branding.not_found_message || 'The link you followed does not exist or has been removed.')}</p>`);
+}
+
+function getCookie(req, name) {
+  const cookies = (req.headers['cookie'] || '').split(';');
+  for (const cookie of cookies) {
+    const [key, ...rest] = cookie.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return null;
+}
+
+function unlockCookieName(link) {
+  return `lt_unlock_${link.short_code}`;
+}
+
+function hasValidUnlockToken(req, link) {
+  const token = getCookie(req, unlockCookieName(link));
+  if (!token) {
+    return false;
+  }
+
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET);
+    return decoded.purpose === 'unlock' && decoded.linkId === link.id;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Clicks reserved per capped link, so redirects that are still awaiting
+// storage count towards max_clicks before their click is queued
+const capReservations = new Map();
+
+// Clicks a link has used: stored, still in the ingestion queue, or reserved
+function capUsage(link) {
+  return Math.max(capReservations.get(link.id) || 0, link.click_count + clickBuffer.pendingFor(link.id));
+}
+
+// A link is expired once its expiry date passes or its click cap is reached
+function isLinkExpired(link) {
+  if (link.expires_at && new Date(link.expires_at) <= new Date()) {
+    return true;
+  }
+  return link.max_clicks > 0 && capUsage(link) >= link.max_clicks;
+}
+
+// Takes one of the link's clicks, or returns false when none are left. Runs
+// synchronously so that concurrent visitors can't all pass the cap check
+// while the first one is still on its way to recordClick.
+function reserveClick(link) {
+  if (isLinkExpired(link)) {
+    return false;
+  }
+  if (link.max_clicks > 0) {
+    capReservations.set(link.id, capUsage(link) + 1);
+  }
+  return true;
+}
+
+function linkStatus(link) {
+  if (!link.is_active) {
+    return 'inactive';
+  }
+  return isLinkExpired(link) ? 'expired' : 'active';
+}
+
+function handleExpiredLink(res, link) {
+  if (link.expired_redirect_url) {
+    return res.redirect(302, link.expired_redirect_url);
+  }
+  sendExpiredPage(res);
+}
+
+function variantCookieName(link) {
+  return `lt_variant_${link.short_code}`;
+}
+
+// The A/B variant to send this visitor to, or null when the link has no live variants
+async function chooseVariant(req, res, link) {
+  const variants = await storage.variants.all({ link_id: link.id });
+  const variant = pickVariant(variants, getCookie(req, variantCookieName(link)));
+  if (variant) {
+    res.cookie(variantCookieName(link), variant.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: VARIANT_COOKIE_TTL * 1000,
+      path: `/${link.short_code}`
+    });
+  }
+  return variant;
+}
+
+let warnedAboutProxy = false;
+
+// Location and visitor IDs come from req.ip, which is the proxy's own address
+// when a proxy forwards requests and TRUST_PROXY isn't set; say so once
+function warnIfProxyUntrusted(req) {
+  if (!warnedAboutProxy && req.headers['x-forwarded-for'] && !app.get('trust proxy')) {
+    warnedAboutProxy = true;
+    console.warn(`Request forwarded by a proxy at ${req.ip} but TRUST_PROXY is not set; clicks will get the proxy's location and visitor ID`);
+  }
+}
+
+// The parsed user agent and location of a request, shared by targeting and click recording
+function describeVisit(req) {
+  warnIfProxyUntrusted(req);
+  const userAgent = req.headers['user-agent'] || '';
+  const uaResult = new UAParser(userAgent, Bots).getResult();
+  const { country, city } = geoIp.lookup(req.ip);
+  return { userAgent, uaResult, country, city };
+}
+
+// Where a click came from, from the src marker on the short URL (src=qr on QR codes).
+// Anything that isn't a short lowercase token is ignored.
+function clickSource(req) {
+  const source = String(req.query.src || '').toLowerCase();
+  return /^[a-z0-9_-]{1,32}$/.test(source) ? source : '';
+}
+
+// Queue a click for a link; the click buffer stores it and bumps the link's click count
+function recordClick(req, link, { userAgent, uaResult, country, city }, { variant, rule }) {
+  const { device, browser, os } = uaResult;
+  const { is_bot, bot_name } = classifyClick({ method: req.method, headers: req.headers, userAgent, uaResult });
+
+  const newClick = {
+    id: generateId('click'),
+    link_id: link.id,
+    campaign_id: link.campaign_id || '',
+    // Location and visitor ID come from the full address, before any truncation
+    ip_address: PRIVACY_MODE ? anonymizeIp(req.ip) : req.ip,
+    visitor_id: visitorHasher.visitorId(req.ip, userAgent),
+    user_agent: userAgent,
+    referer: req.headers['referer'] || '',
+    country,
+    city,
+    device_type: device.type || 'desktop',
+    browser: browser.name || 'Unknown',
+    os: os.name || 'Unknown',
+    is_bot,
+    bot_name,
+    variant_id: variant?.id || '',
+    rule_id: rule?.id || '',
+    source: clickSource(req),
+    created_at: new Date().toISOString()
+  };
+
+  clickBuffer.enqueue(newClick);
+  return newClick;
+}
+
+// Send the visitor on: the first matching targeting rule wins, then the app on
+// iOS and Android, then an A/B variant, then the link's original_url. The
+// click ID goes along as a query parameter for server-side postbacks and as a
+// cookie for the tracking pixel.
+async function redirectVisitor(req, res, status, link) {
+  const visit = describeVisit(req);
+  const rules = await storage.rules.all({ link_id: link.id });
+  const rule = findMatchingRule(rules, targetingContext({
+    uaResult: visit.uaResult,
+    country: visit.country,
+    acceptLanguage: req.headers['accept-language']
+  }));
+  const deepLink = rule ? null : deepLinkFor(link, platformFor(visit.uaResult));
+  const variant = rule || deepLink ? null : await chooseVariant(req, res, link);
+  const click = recordClick(req, link, visit, { variant, rule });
+  const url = rule?.destination_url || variant?.url || link.original_url;
+
+  res.cookie(CLICK_ID_COOKIE, click.id, {
+    httpOnly: true,
+    // The pixel is embedded on the advertiser's site, so the cookie has to be sent cross-site
+    sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: CLICK_ID_COOKIE_TTL * 1000
+  });
+  const webUrl = withClickId(await destinationFor(link, url), CLICK_ID_PARAM, click.id);
+  if (deepLink) {
+    return sendToApp(res, status, deepLink, webUrl, click);
+  }
+  res.redirect(status, webUrl);
+}
+
+// Universal links, app links and store URLs are plain redirects. A custom
+// scheme needs a page that tries to open the app and moves on to the store
+// (or the web destination) when nothing on the device handles it.
+function sendToApp(res, status, { appUrl, storeUrl }, webUrl, click) {
+  if (!appUrl) {
+    return res.redirect(status, storeUrl);
+  }
+  const app = withClickId(appUrl, CLICK_ID_PARAM, click.id);
+  if (isHttpUrl(app)) {
+    return res.redirect(status, app);
+  }
+
+  const fallback = storeUrl || webUrl;
+  const nonce = crypto.randomBytes(16).toString('base64');
+  const targets = JSON.stringify({ app, fallback }).replace(/</g, '\\u003c');
+  sendPublicPage(res, 200, 'Opening App', `
+    <h1>Opening the app...</h1>
+    <p>${storeUrl ? "Don't have the app yet? Get it from the store." : "If the app doesn't open, continue in your browser."}</p>
+    <a class="button" href="${escapeHtml(app)}">Open the app</a>
+    <a class="button secondary" href="${escapeHtml(fallback)}">${storeUrl ? 'Get the app' : 'Continue in browser'}</a>
+    <script nonce="${nonce}">
+      var targets = ${targets};
+      // The page is hidden once the app opens; otherwise fall back after a moment
+      var fallbackTimer = setTimeout(function () { window.location.replace(targets.fallback); }, 1500);
+      document.addEventListener('visibilitychange', function () {
+        if (document.hidden) clearTimeout(fallbackTimer);
+      });
+      window.location.href = targets.app;
+    </script>`, { scriptNonce: nonce });
+}
+
+// A link destination (original_url unless a rule or variant chose another) with its campaign's UTM template applied
+async function destinationFor(link, url = link.original_url) {
+  const campaign = link.campaign_id ? await storage.campaigns.find({ id: link.campaign_id }) : null;
+  return buildDestinationUrl({ ...link, original_url: url }, campaign);
+}
+
+// Credit a click with a conversion. Each click converts at most once. With an
+// owner, only clicks on that account's links can be credited.
+async function recordConversion(input, source, owner = null) {
+  const { click_id, value, currency } = parseConversion(input);
+
+  // The click may still be waiting in the ingestion queue if the conversion follows right away
+  const click = clickBuffer.findQueued(click_id) || await storage.clicks.find({ id: click_id });
+  if (!click || (owner && !await storage.links.find({ id: click.link_id, user_id: owner.id }))) {
+    return { status: 404, error: 'Click not found' };
+  }
+
+  const { row: conversion, inserted } = await storage.conversions.insertIfAbsent({
+    id: generateId('conversion'),
+    click_id,
+    link_id: click.link_id,
+    campaign_id: click.campaign_id || '',
+    variant_id: click.variant_id || '',
+    value,
+    currency,
+    source,
+    created_at: new Date().toISOString()
+  });
+  return { status: inserted ? 201 : 200, conversion, duplicate: !inserted };
+}
+
+// Server-to-server postback: click_id, plus optional value and currency, in the
+// query or body. The account's postback secret comes in the X-Postback-Secret
+// header or the secret parameter.
+async function handlePostback(req, res) {
+  try {
+    const input = { ...req.query, ...req.body };
+    const secret = readPostbackSecret(req.headers, input);
+    const owner = secret && await storage.users.find({ postback_secret: secret });
+    if (!owner) {
+      return res.status(401).json({ error: 'A valid postback secret is required' });
+    }
+
+    const { status, error, conversion, duplicate } = await recordConversion(input, 'postback', owner);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+    res.status(status).json({ conversion, duplicate });
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Server error' });
+  }
+}
+
+app.get('/api/conversions/postback', handlePostback);
+app.post('/api/conversions/postback', handlePostback);
+
+// The account's postback secret, created the first time it is asked for
+app.get('/api/conversions/secret', authenticateToken, async (req, res) => {
+  try {
+    let secret = req.user.postback_secret;
+    if (!secret) {
+      secret = createPostbackSecret();
+      await storage.users.update(req.user.id, { postback_secret: secret });
+    }
+    res.json({ postback_secret: secret });
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Replace the postback secret; postbacks with the old one are refused from then on
+app.post('/api/conversions/secret', authenticateToken, async (req, res) => {
+  try {
+    const secret = createPostbackSecret();
+    await storage.users.update(req.user.id, { postback_secret: secret });
+    res.json({ postback_secret: secret });
+  } catch (error) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Tracking pixel for the advertiser's confirmation page. The click ID comes
+// from the query or, failing that, the cookie set at redirect. The image is
+// returned even when nothing is recorded so the page never shows a broken image.
+app.get('/api/conversions/pixel.gif', async (req, res) => {
+  try {
+    await recordConversion({ ...req.query, click_id: req.query.click_id || getCookie(req, CLICK_ID_COOKIE) }, 'pixel');
+  } catch (error) {
+    if (!(error instanceof ConversionError)) {
+      console.error('Failed to record pixel conversion:', error);
+    }
+  }
+  res.set({
+    'Content-Type': 'image/gif',
+    'Cache-Control': 'no-store',
+    'Cross-Origin-Resource-Policy': 'cross-origin'
+  });
+  res.send(PIXEL_GIF);
+});
+
+// App association files, served on verified custom domains that list an app
+app.get(['/.well-known/apple-app-site-association', '/apple-app-site-association'], (req, res) => {
+  const association = res.locals.customDomain && appleAppSiteAssociation(res.locals.customDomain);
+  if (!association) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  res.json(association);
+});
+
+app.get('/.well-known/assetlinks.json', (req, res) => {
+  const statements = res.locals.customDomain && assetLinks(res.locals.customDomain);
+  if (!statements) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  res.json(statements);
+});
+
+// Short link redirect
+app.get('/:short_code', async (req, res, next) => {
+  try {
+    const link = await hostRouter.findLink(req.hostname, req.params.short_code);
+
+    // Unknown codes fall through to the React app, or the not-found page on custom domains
+    if (!link) {
+      return next();
+    }
+
+    // Codes match regardless of case, but the unlock and variant cookies are
+    // scoped to the link's own path, so other spellings go there first
+    if (req.params.short_code !== link.short_code) {
+      const { search } = new URL(req.originalUrl, 'http://localhost');
+      return res.redirect(302, `/${encodeURIComponent(link.short_code)}${search}`);
+    }
+
+    if (!link.is_active) {
+      return sendNotFoundPage(res);
+    }
+
+    if (isLinkExpired(link)) {
+      return handleExpiredLink(res, link);
+    }
+
+    if (link.password_hash && !hasValidUnlockToken(req, link)) {
+      return sendUnlockPage(req, res, 200, link);
+    }
+
+    if (!reserveClick(link)) {
+      return handleExpiredLink(res, link);
+    }
+    await redirectVisitor(req, res, 302, link);
+  } catch (error) {
+    res.status(500).send('Server error');
+  }
+});
+
+// Password-protected link unlock
+app.post('/:short_code/unlock', async (req, res) => {
+  try {
+    const link = await hostRouter.findLink(req.hostname, req.params.short_code);
+
+    if (!link || !link.is_active) {
+      return sendNotFoundPage(res);
+    }
+
+    if (isLinkExpired(link)) {
+      return handleExpiredLink(res, link);
+    }
+
+    if (!link.password_hash) {
+      return res.redirect(303, `/${encodeURIComponent(link.short_code)}`);
+    }
+
+    const { password } = req.body;
+    if (password !== undefined && typeof password !== 'string') {
+      return sendUnlockPage(req, res, 400, link, 'Enter the password as text.');
+    }
+
+    // Every attempt uses up a point before the comparison, so concurrent
+    // guesses can't all pass the check; a correct password gets it back
+    const ipKey = `${link.id}:${req.ip}`;
+    try {
+      await Promise.all([
+        unlockIpLimiter.consume(ipKey),
+        unlockLinkLimiter.consume(link.id)
+      ]);
+    } catch (rejRes) {
+      return sendUnlockPage(req, res, 429, link, 'Too many failed attempts. Please try again later.');
+    }
+
+    if (!password || !await bcrypt.compare(password, link.password_hash)) {
+      return sendUnlockPage(req, res, 401, link, 'Incorrect password.');
+    }
+
+    await Promise.all([
+      unlockIpLimiter.delete(ipKey),
+      unlockLinkLimiter.reward(link.id, 1)
+    ]);
+
+    const token = jwt.sign({ linkId: link.id, purpose: 'unlock' }, JWT_SECRET, { expiresIn: UNLOCK_TOKEN_TTL });
+    res.cookie(unlockCookieName(link), token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: UNLOCK_TOKEN_TTL * 1000,
+      path: `/${link.short_code}`
+    });
+
+    // The cap may have been reached while the password was checked
+    if (!reserveClick(link)) {
+      return handleExpiredLink(res, link);
+    }
+    await redirectVisitor(req, res, 303, link);
+  } catch (error) {
+    res.status(500).send('Server error');
+  }
+});
+
+// Serve React app for all other routes; custom domains get their root redirect or not-found page
+app.get('/{*splat}', (req, res) => {
+  const domain = res.locals.customDomain;
+  if (domain) {
+    if (req.path === '/' && domain.root_redirect_url) {
+      return res.redirect(302, domain.root_redirect_url);
+    }
+    return sendNotFoundPage(res);
+  }
+  res.sendFile(path.join(__dirname, '../dist/index.html'));
+});
+
+// Initialize and start server
+initializeStorage().then(() => {
+  clickBuffer.start();
+  domainVerifier.start();
+  clickRetention.start();
+
+  const server = app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+  });
+
+  // Drain queued clicks before exiting so a deploy or restart loses nothing
+  const shutdown = async (signal) => {
+    console.log(`${signal} received, flushing queued clicks...`);
+    server.close();
+    try {
+      await Promise.all([clickBuffer.stop(), domainVerifier.stop(), clickRetention.stop()]);
+      await storage.close();
+    } catch (error) {
+      console.error('Error during shutdown:', error);
+    }
+    process.exit(0);
+  };
+
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+  process.once('SIGINT', () => shutdown('SIGINT'));
 });
\ No newline at end of file
@@ -0,0 +1,53 @@
+// Classifies clicks as human or automated for reporting.
+// Known crawlers, link-preview fetchers and CLI tools come from UAParser's
+// maintained bot extension; on top of that we match email security scanners,
+// which often send ordinary-looking user agents, and a few request heuristics.
+// The result only affects analytics: bots are redirected like anyone else.
+import { isBot } from 'ua-parser-js/bot-detection';
+
+// Scanners and previewers the UAParser list doesn't cover, checked in order
+export const BOT_PATTERNS = [
+  { name: 'Barracuda', pattern: /barracuda/i },
+  { name: 'Mimecast', pattern: /mimecast/i },
+  { name: 'Proofpoint', pattern: /proofpoint/i },
+  { name: 'Cisco IronPort', pattern: /ironport/i },
+  { name: 'Forcepoint', pattern: /forcepoint|websense/i },
+  { name: 'Trend Micro', pattern: /trend ?micro/i },
+  { name: 'Sophos', pattern: /sophos/i },
+  { name: 'Microsoft Defender', pattern: /safelinks|microsoft office protection/i },
+  { name: 'Headless Chrome', pattern: /headlesschrome/i },
+  { name: 'PhantomJS', pattern: /phantomjs/i },
+  // Word boundaries keep device names such as "Cubot" from matching
+  { name: 'Generic bot', pattern: /\bbot\b|bot\/|crawl|spider|scanner/i }
+];
+
+const HUMAN = { is_bot: false, bot_name: '' };
+
+// uaResult is the UAParser result for userAgent, parsed with the Bots extension
+export function classifyClick({ method, headers, userAgent, uaResult }) {
+  if (!userAgent) {
+    return { is_bot: true, bot_name: 'No user agent' };
+  }
+
+  if (isBot(uaResult)) {
+    return { is_bot: true, bot_name: uaResult.browser.name || 'Unknown bot' };
+  }
+
+  const match = BOT_PATTERNS.find(({ pattern }) => pattern.test(userAgent));
+  if (match) {
+    return { is_bot: true, bot_name: match.name };
+  }
+
+  // Link checkers often probe with HEAD before (or instead of) following the link
+  if (method === 'HEAD') {
+    return { is_bot: true, bot_name: 'HEAD request' };
+  }
+
+  // Every mainstream browser sends Accept-Language on navigation; scripts that
+  // copy a browser user agent usually don't
+  if (!headers['accept-language']) {
+    return { is_bot: true, bot_name: 'Missing Accept-Language' };
+  }
+
+  return HUMAN;
+}
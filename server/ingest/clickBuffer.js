@@ -0,0 +1,146 @@
+// In-memory click queue for the redirect hot path.
+// Redirects only push onto the queue; a single writer drains it in batches,
+// appending the clicks and bumping each link's click_count once per batch.
+export function createClickBuffer({ storage, batchSize = 100, flushIntervalMs = 1000, maxQueueSize = 50000 }) {
+  let queue = [];
+  // The batch being written; it stays visible to lookups until its counts are applied
+  let inFlight = [];
+  // Per-link counts of clicks that are stored but whose click_count increment
+  // failed; the next flush applies them instead of storing the clicks again
+  let uncounted = new Map();
+  let flushing = null;
+  let timer = null;
+
+  const metrics = {
+    enqueued: 0,
+    flushed: 0,
+    dropped: 0,
+    flushes: 0,
+    failedFlushes: 0,
+    lastFlushAt: null,
+    lastFlushMs: null,
+    maxFlushMs: 0,
+    lastError: null
+  };
+
+  async function writeBatch(batch) {
+    const started = Date.now();
+    let stored = false;
+    // Retries the increments of earlier batches along with this one's
+    const counts = new Map(uncounted);
+    inFlight = batch;
+    try {
+      if (batch.length > 0) {
+        await storage.clicks.insertMany(batch);
+      }
+      stored = true;
+
+      for (const click of batch) {
+        counts.set(click.link_id, (counts.get(click.link_id) || 0) + 1);
+      }
+      await storage.links.incrementMany('click_count', counts);
+      uncounted = new Map();
+
+      metrics.flushed += batch.length;
+      metrics.flushes++;
+      metrics.lastError = null;
+    } catch (error) {
+      // Put unstored clicks back in front so nothing is lost; the next flush retries
+      // them. Stored ones only wait in uncounted for their click_count.
+      if (stored) {
+        uncounted = counts;
+      } else {
+        queue = batch.concat(queue);
+      }
+      metrics.failedFlushes++;
+      metrics.lastError = error.message;
+      console.error('Failed to flush clicks:', error);
+    } finally {
+      inFlight = [];
+      metrics.lastFlushMs = Date.now() - started;
+      metrics.maxFlushMs = Math.max(metrics.maxFlushMs, metrics.lastFlushMs);
+      metrics.lastFlushAt = new Date().toISOString();
+    }
+  }
+
+  // Only one flush runs at a time; callers during a flush wait for it and then drain the rest
+  async function flush() {
+    while (flushing) {
+      await flushing;
+    }
+    if (queue.length === 0 && uncounted.size === 0) {
+      return;
+    }
+
+    const batch = queue.splice(0, batchSize);
+    flushing = writeBatch(batch).finally(() => {
+      flushing = null;
+    });
+    await flushing;
+
+    if (queue.length >= batchSize) {
+      await flush();
+    }
+  }
+
+  function enqueue(click) {
+    if (queue.length >= maxQueueSize) {
+      queue.shift();
+      metrics.dropped++;
+    }
+    queue.push(click);
+    metrics.enqueued++;
+
+    if (queue.length >= batchSize && !flushing) {
+      flush().catch(() => {});
+    }
+  }
+
+  // Clicks of a link not yet in its click_count (queued, being written, or
+  // stored with a failed increment), so click caps can count them
+  function pendingFor(linkId) {
+    const unflushed = queue.filter(click => click.link_id === linkId).length +
+      inFlight.filter(click => click.link_id === linkId).length;
+    return unflushed + (uncounted.get(linkId) || 0);
+  }
+
+  // A click that hasn't been flushed yet, so conversions can be attributed right after a redirect
+  function findQueued(clickId) {
+    return queue.find(click => click.id === clickId) || inFlight.find(click => click.id === clickId) || null;
+  }
+
+  function start() {
+    if (!timer) {
+      timer = setInterval(() => {
+        flush().catch(() => {});
+      }, flushIntervalMs);
+      timer.unref();
+    }
+  }
+
+  // Stop the timer and drain everything that is still queued
+  async function stop() {
+    clearInterval(timer);
+    timer = null;
+    while (queue.length > 0 || uncounted.size > 0) {
+      const before = queue.length + uncounted.size;
+      await flush();
+      if (queue.length + uncounted.size >= before) {
+        break; // Storage is failing; don't spin forever during shutdown
+      }
+    }
+  }
+
+  function stats() {
+    return {
+      queueDepth: queue.length,
+      inFlight: inFlight.length,
+      flushing: Boolean(flushing),
+      batchSize,
+      flushIntervalMs,
+      ...metrics
+    };
+  }
+
+  return { enqueue, flush, start, stop, pendingFor, findQueued, stats };
+}
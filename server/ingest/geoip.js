@@ -0,0 +1,42 @@
+// Offline GeoIP lookups for enriching clicks at ingestion.
+// Reads a MaxMind-format database (e.g. GeoLite2-City.mmdb) from disk and never
+// goes to the network. Without a readable database every lookup comes back
+// empty, so clicks are still recorded, just without a location.
+import maxmind from 'maxmind';
+
+const NO_LOCATION = { country: '', city: '' };
+
+export async function createGeoIp({ databasePath }) {
+  let reader = null;
+
+  if (databasePath) {
+    try {
+      // Replacing the file on disk (e.g. a monthly database update) reloads it
+      reader = await maxmind.open(databasePath, { watchForUpdates: true, watchForUpdatesNonPersistent: true });
+      console.log('GeoIP database loaded:', databasePath);
+    } catch (error) {
+      console.warn(`GeoIP database not available at ${databasePath} (${error.code || error.message}); clicks will be stored without location`);
+    }
+  }
+
+  // ISO country code and English city name for an IP address
+  function lookup(ip) {
+    // Dual-stack sockets report IPv4 clients as IPv4-mapped IPv6 addresses
+    const address = String(ip || '').replace(/^::ffff:/, '');
+    if (!reader || !maxmind.validate(address)) {
+      return NO_LOCATION;
+    }
+
+    try {
+      const record = reader.get(address);
+      return {
+        country: record?.country?.iso_code || record?.registered_country?.iso_code || '',
+        city: record?.city?.names?.en || ''
+      };
+    } catch (error) {
+      return NO_LOCATION;
+    }
+  }
+
+  return { lookup, isAvailable: () => reader !== null };
+}
@@ -0,0 +1,129 @@
+// Privacy controls for stored clicks.
+// - IPs can be truncated before they are stored (the last IPv4 octet, or all
+//   but the first 48 bits of an IPv6 address).
+// - Unique visitors are identified by a hash of IP and user agent with a salt
+//   that changes every UTC day. Only the current salt is kept, so once a day is
+//   over its visitor IDs can no longer be linked back to an IP.
+// - Raw click rows older than the retention period are deleted on a timer.
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+
+export function anonymizeIp(ip) {
+  const address = String(ip || '').replace(/^::ffff:/, '');
+  if (net.isIPv4(address)) {
+    return address.replace(/\.\d+$/, '.0');
+  }
+  if (net.isIPv6(address)) {
+    // Expand "::" so the first three groups can be kept regardless of notation
+    const [head, tail = ''] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = address.includes('::')
+      ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+      : headGroups;
+    return `${groups.slice(0, 3).join(':')}::`;
+  }
+  return '';
+}
+
+function utcDay(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+// saltPath stores the current day's salt so restarts within a day keep counting the same visitors
+export async function createVisitorHasher({ saltPath }) {
+  let current = null;
+
+  try {
+    const stored = JSON.parse(await fs.readFile(saltPath, 'utf8'));
+    if (stored.day === utcDay() && stored.salt) {
+      current = stored;
+    }
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.warn('Ignoring unreadable visitor salt file:', error.message);
+    }
+  }
+
+  async function rotate(day) {
+    current = { day, salt: crypto.randomBytes(32).toString('hex') };
+    try {
+      await fs.mkdir(path.dirname(saltPath), { recursive: true });
+      // Overwriting the file discards the previous day's salt for good
+      await fs.writeFile(saltPath, JSON.stringify(current), { mode: 0o600 });
+    } catch (error) {
+      console.error('Failed to store visitor salt:', error);
+    }
+  }
+
+  if (!current) {
+    await rotate(utcDay());
+  }
+
+  // Visitor ID for a click; synchronous so it fits the redirect hot path
+  function visitorId(ip, userAgent) {
+    const day = utcDay();
+    if (current.day !== day) {
+      // Switch in memory right away; the file write can finish in the background
+      rotate(day);
+    }
+    return crypto.createHash('sha256')
+      .update(`${current.salt}|${ip}|${userAgent}`)
+      .digest('hex')
+      .slice(0, 32);
+  }
+
+  return { visitorId };
+}
+
+// Deletes clicks older than retentionDays; a retentionDays of 0 keeps them forever
+export function createClickRetention({ storage, retentionDays, intervalMs = 60 * 60 * 1000 }) {
+  let timer = null;
+  let purging = null;
+
+  async function purge() {
+    if (!retentionDays) {
+      return 0;
+    }
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const clicks = await storage.clicks.all();
+    const expired = clicks
+      .filter(click => new Date(click.created_at).getTime() < cutoff)
+      .map(click => click.id);
+    if (expired.length === 0) {
+      return 0;
+    }
+    const removed = await storage.clicks.removeMany(expired);
+    console.log(`Deleted ${removed} clicks older than ${retentionDays} days`);
+    return removed;
+  }
+
+  function runPurge() {
+    // Skip a tick rather than overlap with a slow previous run
+    if (!purging) {
+      purging = purge()
+        .catch(error => console.error('Failed to purge old clicks:', error))
+        .finally(() => {
+          purging = null;
+        });
+    }
+  }
+
+  function start() {
+    if (retentionDays && !timer) {
+      runPurge();
+      timer = setInterval(runPurge, intervalMs);
+      timer.unref();
+    }
+  }
+
+  async function stop() {
+    clearInterval(timer);
+    timer = null;
+    await purging;
+  }
+
+  return { purge, start, stop };
+}
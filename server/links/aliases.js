@@ -0,0 +1,73 @@
+// Short code policy shared by link creation, editing and imports.
+// Codes are unique per domain regardless of case, so "Promo" and "promo"
+// cannot point at different links on the same domain.
+
+export const SHORT_CODE_PATTERN = /^[A-Za-z0-9_-]{3,50}$/;
+
+// Paths the server or the frontend already answers on the short link domain
+export const RESERVED_ALIASES = new Set([
+  'api',
+  'health',
+  'assets',
+  'static',
+  'public',
+  'src',
+  'dashboard',
+  'links',
+  'campaigns',
+  'domains',
+  'analytics',
+  'settings',
+  'login',
+  'logout',
+  'register',
+  'admin',
+  'apple-app-site-association'
+]);
+
+const MAX_SUGGESTIONS = 3;
+
+// Returns a reason the alias cannot be used, or null when its format is fine
+export function validateAlias(alias) {
+  if (typeof alias !== 'string' || !SHORT_CODE_PATTERN.test(alias)) {
+    return 'Alias must be 3-50 letters, numbers, dashes or underscores';
+  }
+  if (RESERVED_ALIASES.has(alias.toLowerCase())) {
+    return `"${alias}" is reserved`;
+  }
+  return null;
+}
+
+// Lower-cased short codes in use on a domain ('' is the default domain)
+export function takenCodesFor(links, domainId = '', excludeLinkId = null) {
+  return new Set(
+    links
+      .filter(link => (link.domain_id || '') === (domainId || '') && link.id !== excludeLinkId)
+      .map(link => link.short_code.toLowerCase())
+  );
+}
+
+// Free alternatives to a taken alias: the next free number, the year, then random suffixes
+export function suggestAliases(alias, takenCodes) {
+  const base = alias.slice(0, 45);
+  let number = 2;
+  while (number < 100 && takenCodes.has(`${base}-${number}`.toLowerCase())) {
+    number++;
+  }
+  const candidates = [`${base}-${number}`, `${base}-${new Date().getFullYear()}`];
+  for (let i = 0; i < 5; i++) {
+    candidates.push(`${base}-${Math.random().toString(36).slice(2, 5)}`);
+  }
+
+  const suggestions = [];
+  for (const candidate of candidates) {
+    const key = candidate.toLowerCase();
+    if (!takenCodes.has(key) && !validateAlias(candidate) && !suggestions.some(s => s.toLowerCase() === key)) {
+      suggestions.push(candidate);
+    }
+    if (suggestions.length === MAX_SUGGESTIONS) {
+      break;
+    }
+  }
+  return suggestions;
+}
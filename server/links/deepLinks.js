@@ -0,0 +1,59 @@
+// Mobile app deep linking.
+// A link can name, per platform, an app URL (a custom scheme such as
+// myapp://product/42, or an https universal / app link) and a store URL.
+// iOS and Android visitors are sent to the app, falling back to the store when
+// the app isn't installed; everyone else gets the web destination as usual.
+import { isHttpUrl } from './urls.js';
+
+export const DEEP_LINK_FIELDS = ['ios_app_url', 'ios_store_url', 'android_app_url', 'android_store_url'];
+
+// Schemes an app URL may never use, as they would run or read content in the browser
+const BLOCKED_SCHEMES = ['javascript:', 'data:', 'file:', 'blob:', 'vbscript:'];
+
+export class DeepLinkError extends Error {}
+
+// A deep link field, trimmed and checked; empty clears it
+export function normalizeDeepLinkField(field, value) {
+  const url = String(value ?? '').trim();
+  if (!url) {
+    return '';
+  }
+  if (field.endsWith('_store_url')) {
+    if (!isHttpUrl(url)) {
+      throw new DeepLinkError(`${field} must be an http or https URL`);
+    }
+    return url;
+  }
+  let protocol;
+  try {
+    protocol = new URL(url).protocol;
+  } catch (error) {
+    throw new DeepLinkError(`${field} must be a URL such as myapp://path or https://example.com/path`);
+  }
+  if (BLOCKED_SCHEMES.includes(protocol)) {
+    throw new DeepLinkError(`${field} cannot use the ${protocol} scheme`);
+  }
+  return url;
+}
+
+// 'ios' or 'android' from a UAParser result, or null for every other platform
+export function platformFor(uaResult) {
+  const os = uaResult.os.name || '';
+  if (os === 'iOS' || os === 'iPadOS') {
+    return 'ios';
+  }
+  if (os === 'Android') {
+    return 'android';
+  }
+  return null;
+}
+
+// The app and store URLs a link has for a platform, or null when it has neither
+export function deepLinkFor(link, platform) {
+  if (!platform) {
+    return null;
+  }
+  const appUrl = link[`${platform}_app_url`] || '';
+  const storeUrl = link[`${platform}_store_url`] || '';
+  return appUrl || storeUrl ? { appUrl, storeUrl } : null;
+}
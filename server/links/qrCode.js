@@ -0,0 +1,262 @@
+// QR codes for short links.
+// The code encodes the short URL with ?src=qr so scans show up as their own
+// source in analytics. An optional logo is drawn over the center; error
+// correction then defaults to H so the modules it covers can be recovered.
+import dns from 'dns/promises';
+import https from 'https';
+import net from 'net';
+import QRCode from 'qrcode';
+import { PNG } from 'pngjs';
+
+export const QR_FORMATS = { svg: 'image/svg+xml', png: 'image/png' };
+
+const ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'];
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const LOGO_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml'];
+const LOGO_MAX_BYTES = 512 * 1024;
+const LOGO_TIMEOUT_MS = 5000;
+// Largest PNG logo side decoded; a tiny, highly compressed file can declare huge dimensions
+const LOGO_MAX_DIMENSION = 2048;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const LOGO_SCALE = 0.22; // Share of the code's width the logo backdrop covers
+
+export class QrCodeError extends Error {}
+
+function readInteger(value, name, min, max, fallback) {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new QrCodeError(`${name} must be a whole number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+function readColor(value, name, fallback) {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const match = HEX_COLOR.exec(String(value));
+  if (!match) {
+    throw new QrCodeError(`${name} must be a hex color such as #000000`);
+  }
+  const hex = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  return `#${hex.toLowerCase()}`;
+}
+
+// Options from the query: format (svg or png), size in pixels, margin in
+// modules, level (L, M, Q or H), fg and bg colors, and logo_url
+export function parseQrOptions(query) {
+  const format = String(query.format || 'svg').toLowerCase();
+  if (!QR_FORMATS[format]) {
+    throw new QrCodeError(`format must be one of ${Object.keys(QR_FORMATS).join(', ')}`);
+  }
+
+  const logoUrl = String(query.logo_url || '').trim();
+  if (logoUrl) {
+    let protocol;
+    try {
+      protocol = new URL(logoUrl).protocol;
+    } catch (error) {
+      protocol = '';
+    }
+    if (protocol !== 'https:') {
+      throw new QrCodeError('logo_url must be an https URL');
+    }
+  }
+
+  const level = String(query.level || (logoUrl ? 'H' : 'M')).toUpperCase();
+  if (!ERROR_CORRECTION_LEVELS.includes(level)) {
+    throw new QrCodeError(`level must be one of ${ERROR_CORRECTION_LEVELS.join(', ')}`);
+  }
+
+  return {
+    format,
+    size: readInteger(query.size, 'size', 64, 2048, 512),
+    margin: readInteger(query.margin, 'margin', 0, 16, 4),
+    level,
+    dark: readColor(query.fg, 'fg', '#000000'),
+    light: readColor(query.bg, 'bg', '#ffffff'),
+    logoUrl
+  };
+}
+
+function isPrivateAddress(address) {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) || (a === 172 && b >= 16 && b < 32) || (a === 192 && b === 168) || a >= 224;
+  }
+  const lower = address.toLowerCase();
+  if (lower.startsWith('::ffff:')) {
+    return isPrivateAddress(lower.slice(7));
+  }
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+async function resolvePublicAddresses(hostname) {
+  let addresses;
+  try {
+    addresses = await dns.lookup(hostname, { all: true });
+  } catch (error) {
+    throw new QrCodeError(`Could not resolve the logo host ${hostname}`);
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new QrCodeError('logo_url must point to a public host');
+  }
+  return addresses;
+}
+
+// Used as the connection's own DNS lookup, so the addresses checked are the
+// ones connected to; checking in a separate lookup first would leave room
+// for DNS rebinding
+function lookupPublicAddress(hostname, options, callback) {
+  resolvePublicAddresses(hostname).then(
+    addresses => (options.all ? callback(null, addresses) : callback(null, addresses[0].address, addresses[0].family)),
+    callback
+  );
+}
+
+function requestLogo(url) {
+  return new Promise((resolve, reject) => {
+    https.get(url, { lookup: lookupPublicAddress, signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) }, resolve)
+      .on('error', reject);
+  });
+}
+
+// Downloads the logo, refusing hosts on private networks so the endpoint
+// can't be used to reach internal services. Redirects are not followed.
+async function fetchLogo(logoUrl) {
+  const url = new URL(logoUrl);
+  // IP literals are connected to without a lookup, so they are checked here
+  const literal = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(literal) && isPrivateAddress(literal)) {
+    throw new QrCodeError('logo_url must point to a public host');
+  }
+
+  let response;
+  try {
+    response = await requestLogo(url);
+  } catch (error) {
+    throw error instanceof QrCodeError ? error : new QrCodeError('Could not download the logo');
+  }
+  if (response.statusCode < 200 || response.statusCode >= 300) {
+    response.destroy();
+    throw new QrCodeError(`Downloading the logo failed with status ${response.statusCode}`);
+  }
+
+  const type = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  if (!LOGO_TYPES.includes(type)) {
+    response.destroy();
+    throw new QrCodeError('The logo must be a PNG, JPEG or SVG image');
+  }
+
+  const chunks = [];
+  let length = 0;
+  try {
+    for await (const chunk of response) {
+      length += chunk.length;
+      if (length > LOGO_MAX_BYTES) {
+        response.destroy();
+        throw new QrCodeError(`The logo must be at most ${LOGO_MAX_BYTES / 1024} KB`);
+      }
+      chunks.push(chunk);
+    }
+  } catch (error) {
+    throw error instanceof QrCodeError ? error : new QrCodeError('Could not download the logo');
+  }
+  return { type, data: Buffer.concat(chunks) };
+}
+
+// Reads a PNG's dimensions from its IHDR chunk, which always comes first, without decoding it
+function pngDimensions(data) {
+  if (data.length < 24 || !data.subarray(0, 8).equals(PNG_SIGNATURE) || data.toString('latin1', 12, 16) !== 'IHDR') {
+    return null;
+  }
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+// The SVG is drawn in module units (its viewBox), so the logo is placed in those units too
+function addSvgLogo(svg, logo, light) {
+  const [, modules] = /viewBox="0 0 (\d+) \d+"/.exec(svg);
+  const box = modules * LOGO_SCALE;
+  const offset = (modules - box) / 2;
+  const inset = box * 0.08;
+  const overlay =
+    `<rect x="${offset}" y="${offset}" width="${box}" height="${box}" fill="${light}"/>` +
+    `<image x="${offset + inset}" y="${offset + inset}" width="${box - inset * 2}" height="${box - inset * 2}" ` +
+    `preserveAspectRatio="xMidYMid meet" href="data:${logo.type};base64,${logo.data.toString('base64')}"/>`;
+  return svg.replace('</svg>', `${overlay}</svg>`);
+}
+
+function hexToRgb(hex) {
+  return [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16));
+}
+
+// Pastes the logo, scaled to fit and alpha-blended, onto a backdrop in the middle of the code
+function addPngLogo(buffer, logo, light) {
+  if (logo.type !== 'image/png') {
+    throw new QrCodeError('PNG QR codes need a PNG logo; use format=svg for JPEG or SVG logos');
+  }
+  const dimensions = pngDimensions(logo.data);
+  if (!dimensions) {
+    throw new QrCodeError('The logo is not a valid PNG image');
+  }
+  if (dimensions.width > LOGO_MAX_DIMENSION || dimensions.height > LOGO_MAX_DIMENSION) {
+    throw new QrCodeError(`The logo must be at most ${LOGO_MAX_DIMENSION}x${LOGO_MAX_DIMENSION} pixels`);
+  }
+
+  const code = PNG.sync.read(buffer);
+  let image;
+  try {
+    image = PNG.sync.read(logo.data);
+  } catch (error) {
+    throw new QrCodeError('The logo is not a valid PNG image');
+  }
+
+  const box = Math.round(code.width * LOGO_SCALE);
+  const origin = Math.round((code.width - box) / 2);
+  const [red, green, blue] = hexToRgb(light);
+  for (let y = origin; y < origin + box; y++) {
+    for (let x = origin; x < origin + box; x++) {
+      const index = (y * code.width + x) * 4;
+      code.data[index] = red;
+      code.data[index + 1] = green;
+      code.data[index + 2] = blue;
+      code.data[index + 3] = 255;
+    }
+  }
+
+  const inner = Math.round(box * 0.84);
+  const scale = Math.min(inner / image.width, inner / image.height);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const left = origin + Math.round((box - width) / 2);
+  const top = origin + Math.round((box - height) / 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (Math.min(image.height - 1, Math.floor(y / scale)) * image.width + Math.min(image.width - 1, Math.floor(x / scale))) * 4;
+      const target = ((top + y) * code.width + left + x) * 4;
+      const alpha = image.data[source + 3] / 255;
+      for (let channel = 0; channel < 3; channel++) {
+        code.data[target + channel] = Math.round(image.data[source + channel] * alpha + code.data[target + channel] * (1 - alpha));
+      }
+    }
+  }
+  return PNG.sync.write(code);
+}
+
+// The QR code image for text, as { contentType, body }
+export async function renderQrCode(text, { format, size, margin, level, dark, light, logoUrl }) {
+  const options = { width: size, margin, errorCorrectionLevel: level, color: { dark, light } };
+  const logo = logoUrl ? await fetchLogo(logoUrl) : null;
+
+  if (format === 'png') {
+    const png = await QRCode.toBuffer(text, { ...options, type: 'png' });
+    return { contentType: QR_FORMATS.png, body: logo ? addPngLogo(png, logo, light) : png };
+  }
+
+  const svg = await QRCode.toString(text, { ...options, type: 'svg' });
+  return { contentType: QR_FORMATS.svg, body: logo ? addSvgLogo(svg, logo, light) : svg };
+}
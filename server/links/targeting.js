@@ -0,0 +1,176 @@
+// Rule-based targeting.
+// A link can carry an ordered list of rules, each sending visitors that match
+// one condition (device, OS, country, language, day of week or time of day) to
+// its own destination. The first matching rule wins; when none match the
+// link's A/B variants or original_url apply as usual.
+import { isValidTimeZone, toWallClock } from '../analytics/timeSeries.js';
+import { isHttpUrl } from './urls.js';
+
+export const MAX_RULES = 20;
+
+export const RULE_MATCH_TYPES = ['device', 'os', 'country', 'language', 'day', 'time'];
+
+// UAParser device types; clicks without one are desktops
+export const DEVICE_TYPES = ['desktop', 'mobile', 'tablet', 'smarttv', 'console', 'wearable', 'xr', 'embedded'];
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY_GROUPS = {
+  weekend: ['sat', 'sun'],
+  weekday: ['mon', 'tue', 'wed', 'thu', 'fri']
+};
+const TIME_RANGE = /^([01]\d|2[0-3]):([0-5]\d)-([01]\d|2[0-3]):([0-5]\d)$/;
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z0-9]{2,8})?$/;
+
+export class RuleError extends Error {}
+
+// Normalizes a rule's comma-separated values, or returns an error message
+function normalizeValues(matchType, values) {
+  switch (matchType) {
+    case 'device': {
+      const unknown = values.map(value => value.toLowerCase()).filter(value => !DEVICE_TYPES.includes(value));
+      return unknown.length ? `Unknown device type "${unknown[0]}"; use ${DEVICE_TYPES.join(', ')}` : values.map(value => value.toLowerCase());
+    }
+    case 'country': {
+      const codes = values.map(value => value.toUpperCase());
+      const invalid = codes.find(code => !/^[A-Z]{2}$/.test(code));
+      return invalid ? `"${invalid}" is not a two-letter country code` : codes;
+    }
+    case 'language': {
+      const tags = values.map(value => value.toLowerCase().replace(/_/g, '-'));
+      const invalid = tags.find(tag => !LANGUAGE_TAG.test(tag));
+      return invalid ? `"${invalid}" is not a language code such as fr or pt-br` : tags;
+    }
+    case 'day': {
+      const days = values.flatMap(value => DAY_GROUPS[value.toLowerCase()] || [value.toLowerCase().slice(0, 3)]);
+      const invalid = days.find(day => !DAYS.includes(day));
+      return invalid ? `"${invalid}" is not a day; use mon-sun, weekday or weekend` : Array.from(new Set(days));
+    }
+    case 'time': {
+      const invalid = values.find(value => !TIME_RANGE.test(value));
+      return invalid ? `"${invalid}" is not a time range such as 09:00-17:30` : values;
+    }
+    default:
+      return values;
+  }
+}
+
+// Validates the full, ordered rule list sent for a link. Entries keep their id
+// when they have one so that click attribution survives edits.
+export function parseRules(input) {
+  if (!Array.isArray(input)) {
+    throw new RuleError('rules must be an array');
+  }
+  if (input.length > MAX_RULES) {
+    throw new RuleError(`A link can have at most ${MAX_RULES} rules`);
+  }
+
+  return input.map((rule, index) => {
+    const position = index + 1;
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      throw new RuleError(`Rule ${position} must be an object`);
+    }
+    const match_type = String(rule.match_type || '');
+    if (!RULE_MATCH_TYPES.includes(match_type)) {
+      throw new RuleError(`Rule ${position} must match on one of ${RULE_MATCH_TYPES.join(', ')}`);
+    }
+
+    const rawValues = Array.isArray(rule.match_values) ? rule.match_values : String(rule.match_values || '').split(',');
+    const values = rawValues.map(value => String(value).trim()).filter(Boolean);
+    if (values.length === 0) {
+      throw new RuleError(`Rule ${position} needs at least one value to match`);
+    }
+    const normalized = normalizeValues(match_type, values);
+    if (typeof normalized === 'string') {
+      throw new RuleError(`Rule ${position}: ${normalized}`);
+    }
+
+    const timezone = String(rule.timezone || 'UTC').trim();
+    if (!isValidTimeZone(timezone)) {
+      throw new RuleError(`Rule ${position}: unknown time zone "${timezone}"`);
+    }
+
+    const destination_url = String(rule.destination_url || '').trim();
+    if (!isHttpUrl(destination_url)) {
+      throw new RuleError(`Rule ${position} needs an http(s) destination URL`);
+    }
+
+    return {
+      id: rule.id ? String(rule.id) : '',
+      position,
+      label: String(rule.label || '').trim().slice(0, 100) || `${match_type}: ${normalized.join(', ')}`,
+      match_type,
+      match_values: normalized.join(','),
+      timezone,
+      destination_url
+    };
+  });
+}
+
+// The visitor's most preferred language from an Accept-Language header
+export function preferredLanguage(header) {
+  const languages = String(header || '')
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.find(param => param.trim().startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), q: quality ? parseFloat(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0);
+  if (languages.length === 0) {
+    return '';
+  }
+  // Stable sort keeps header order among equal weights
+  return languages.sort((a, b) => b.q - a.q)[0].tag;
+}
+
+// What rules can match on for one request; uaResult is the UAParser result
+export function targetingContext({ uaResult, country, acceptLanguage, now = new Date() }) {
+  return {
+    device: uaResult.device.type || 'desktop',
+    os: uaResult.os.name || '',
+    country: country || '',
+    language: preferredLanguage(acceptLanguage),
+    now
+  };
+}
+
+function minutesOf(hours, minutes) {
+  return parseInt(hours) * 60 + parseInt(minutes);
+}
+
+export function matchesRule(rule, context) {
+  const values = rule.match_values.split(',');
+  switch (rule.match_type) {
+    case 'device':
+      return values.includes(context.device);
+    case 'os':
+      return values.some(value => value.toLowerCase() === context.os.toLowerCase());
+    case 'country':
+      return values.includes(context.country);
+    case 'language':
+      // "fr" matches fr-CA too; "fr-ca" only matches itself
+      return values.some(value => context.language === value || context.language.startsWith(`${value}-`));
+    case 'day':
+      return values.includes(DAYS[toWallClock(context.now, rule.timezone || 'UTC').getUTCDay()]);
+    case 'time': {
+      const wall = toWallClock(context.now, rule.timezone || 'UTC');
+      const minute = wall.getUTCHours() * 60 + wall.getUTCMinutes();
+      return values.some(value => {
+        const [, fromHours, fromMinutes, toHours, toMinutes] = TIME_RANGE.exec(value);
+        const from = minutesOf(fromHours, fromMinutes);
+        const to = minutesOf(toHours, toMinutes);
+        // Ranges such as 22:00-06:00 run past midnight
+        return from <= to ? minute >= from && minute < to : minute >= from || minute < to;
+      });
+    }
+    default:
+      return false;
+  }
+}
+
+// The first rule, in position order, that matches the request
+export function findMatchingRule(rules, context) {
+  return [...rules]
+    .sort((a, b) => a.position - b.position)
+    .find(rule => matchesRule(rule, context)) || null;
+}
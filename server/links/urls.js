@@ -0,0 +1,11 @@
+// URL checks shared by link, import and domain validation.
+
+// Whether value is an absolute http or https URL, the only kind a visitor can be sent to
+export function isHttpUrl(value) {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,98 @@
+// A/B split destinations.
+// A link can carry weighted destination variants. Each visitor is assigned one
+// by weight on their first click and keeps it through a cookie, so a reader who
+// comes back sees the same landing page. Variants with weight 0 are paused: no
+// new visitors get them, and visitors already assigned are re-drawn. A link
+// whose variants are all paused (or that has none) uses its original_url.
+import { countVisitors, uniqueRate } from '../analytics/comparison.js';
+import { summarizeConversions } from '../conversions/tracking.js';
+import { isHttpUrl } from './urls.js';
+
+export const MAX_VARIANTS = 10;
+
+export class VariantError extends Error {}
+
+// Validates the full variant list sent for a link. Entries keep their id when
+// they have one so that stickiness and analytics survive edits.
+export function parseVariants(input) {
+  if (!Array.isArray(input)) {
+    throw new VariantError('variants must be an array');
+  }
+  if (input.length > MAX_VARIANTS) {
+    throw new VariantError(`A link can have at most ${MAX_VARIANTS} variants`);
+  }
+
+  return input.map((variant, index) => {
+    if (!variant || typeof variant !== 'object' || Array.isArray(variant)) {
+      throw new VariantError(`Variant ${index + 1} must be an object`);
+    }
+    const url = String(variant.url || '').trim();
+    if (!isHttpUrl(url)) {
+      throw new VariantError(`Variant ${index + 1} needs an http(s) URL`);
+    }
+    const weight = Number(variant.weight ?? 1);
+    if (!Number.isInteger(weight) || weight < 0 || weight > 1000) {
+      throw new VariantError(`Variant ${index + 1} weight must be a whole number from 0 to 1000`);
+    }
+    return {
+      id: variant.id ? String(variant.id) : '',
+      label: String(variant.label || '').trim().slice(0, 100) || `Variant ${String.fromCharCode(65 + index)}`,
+      url,
+      weight
+    };
+  });
+}
+
+// The variant a visitor is sent to: the one named in their cookie while it is
+// still live, otherwise a weighted draw. Null means use the link's original_url.
+export function pickVariant(variants, stickyId, random = Math.random) {
+  const live = variants.filter(variant => variant.weight > 0);
+  if (live.length === 0) {
+    return null;
+  }
+
+  const sticky = live.find(variant => variant.id === stickyId);
+  if (sticky) {
+    return sticky;
+  }
+
+  const total = live.reduce((sum, variant) => sum + variant.weight, 0);
+  let target = random() * total;
+  for (const variant of live) {
+    target -= variant.weight;
+    if (target < 0) {
+      return variant;
+    }
+  }
+  return live[live.length - 1];
+}
+
+// Clicks and conversions side by side for each variant. Clicks served by a
+// variant that has since been deleted are grouped as "Removed variant".
+export function compareVariants(variants, clicks, conversions) {
+  const rows = variants.map(variant => ({ id: variant.id, label: variant.label, url: variant.url, weight: variant.weight }));
+  const known = new Set(rows.map(row => row.id));
+  if (clicks.some(click => click.variant_id && !known.has(click.variant_id))) {
+    rows.push({ id: 'removed', label: 'Removed variant', url: '', weight: 0 });
+  }
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const rowFor = variantId => (known.has(variantId) ? variantId : variantId ? 'removed' : '');
+  const variantClicks = clicks.filter(click => click.variant_id);
+
+  return rows.map(row => {
+    const rowClicks = variantClicks.filter(click => rowFor(click.variant_id) === row.id);
+    const rowConversions = conversions.filter(conversion => conversion.variant_id && rowFor(conversion.variant_id) === row.id);
+    const uniqueClicks = countVisitors(rowClicks);
+    return {
+      ...row,
+      clicks: rowClicks.length,
+      uniqueClicks,
+      uniqueRate: uniqueRate(rowClicks.length, uniqueClicks),
+      share: variantClicks.length > 0 ? Math.round((rowClicks.length / variantClicks.length) * 1000) / 10 : null,
+      ...summarizeConversions(rowConversions, rowClicks.length)
+    };
+  });
+}
@@ -0,0 +1,37 @@
+// One-shot copy of the CSV data files into the SQLite database.
+// Usage: npm run migrate:sqlite
+// Honors the same DATA_DIR and SQLITE_PATH settings as the server. Rows are
+// upserted by id, so running it again only refreshes what is already there.
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createStorage } from '../storage/index.js';
+import { TABLE_NAMES } from '../storage/schema.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '../data');
+const SQLITE_PATH = process.env.SQLITE_PATH || path.join(DATA_DIR, 'linktracker.db');
+
+async function migrate() {
+  const source = await createStorage({ backend: 'csv', dataDir: DATA_DIR });
+  const target = await createStorage({ backend: 'sqlite', sqlitePath: SQLITE_PATH });
+
+  console.log(`Migrating CSV data from ${DATA_DIR} to ${SQLITE_PATH}`);
+
+  try {
+    for (const table of TABLE_NAMES) {
+      const rows = await source[table].all();
+      await target[table].insertMany(rows);
+      console.log(`  ${table}: ${rows.length} rows`);
+    }
+    console.log('Migration complete. Start the server with STORAGE_BACKEND=sqlite to use it.');
+  } finally {
+    await target.close();
+    await source.close();
+  }
+}
+
+migrate().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,230 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createReadStream } from 'fs';
+import csvParser from 'csv-parser';
+import csvWriter from 'csv-writer';
+import { TABLES, TABLE_NAMES, columnNames, coerceRow, matchesWhere } from './schema.js';
+
+// CSV files store booleans as 'true'/'false' and missing numbers as empty cells
+function toCsvRecord(row) {
+  const record = {};
+  for (const [column, value] of Object.entries(row)) {
+    record[column] = value === null || value === undefined ? '' : value;
+  }
+  return record;
+}
+
+class CsvRepository {
+  constructor(table, filePath) {
+    this.table = table;
+    this.filePath = filePath;
+    this.headers = columnNames(table);
+    this.stringifier = csvWriter.createObjectCsvStringifier({
+      header: this.headers.map(h => ({ id: h, title: h }))
+    });
+    // Every write runs through this chain so concurrent requests never interleave
+    // a read-modify-write and lose rows
+    this.queue = Promise.resolve();
+  }
+
+  serialize(task) {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  async init() {
+    const exists = await fs.access(this.filePath).then(() => true).catch(() => false);
+    if (!exists) {
+      await fs.writeFile(this.filePath, this.stringifier.getHeaderString());
+      return;
+    }
+
+    // Rewrite files created with an older set of columns
+    const content = await fs.readFile(this.filePath, 'utf8');
+    const headerLine = content.split(/\r?\n/, 1)[0];
+    if (headerLine !== this.headers.join(',')) {
+      await this.writeAll(await this.readAll());
+    }
+  }
+
+  readAll() {
+    const results = [];
+    return new Promise((resolve, reject) => {
+      createReadStream(this.filePath)
+        .pipe(csvParser())
+        .on('data', (data) => {
+          if (data.id) {
+            results.push(coerceRow(this.table, data));
+          }
+        })
+        .on('end', () => resolve(results))
+        .on('error', reject);
+    });
+  }
+
+  async writeAll(rows) {
+    const content = this.stringifier.getHeaderString() + this.stringifier.stringifyRecords(rows.map(toCsvRecord));
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async all(where) {
+    const rows = await this.readAll();
+    return where ? rows.filter(row => matchesWhere(row, where)) : rows;
+  }
+
+  async allIgnoreCase(column, value) {
+    const key = String(value).toLowerCase();
+    const rows = await this.readAll();
+    return rows.filter(row => String(row[column]).toLowerCase() === key);
+  }
+
+  // Parses the file as a stream, so only the matching rows being consumed are held in memory
+  async *iterate(where) {
+    for await (const data of createReadStream(this.filePath).pipe(csvParser())) {
+      if (!data.id) {
+        continue;
+      }
+      const row = coerceRow(this.table, data);
+      if (!where || matchesWhere(row, where)) {
+        yield row;
+      }
+    }
+  }
+
+  async find(where) {
+    const rows = await this.readAll();
+    return rows.find(row => matchesWhere(row, where)) || null;
+  }
+
+  insert(record) {
+    return this.serialize(async () => {
+      const row = coerceRow(this.table, record);
+      await fs.appendFile(this.filePath, this.stringifier.stringifyRecords([toCsvRecord(row)]));
+      return row;
+    });
+  }
+
+  // The check and the append run in the same queued task, so concurrent duplicates can't both get in
+  insertIfAbsent(record) {
+    return this.serialize(async () => {
+      const row = coerceRow(this.table, record);
+      const column = TABLES[this.table].unique;
+      const existing = (await this.readAll()).find(r => r[column] === row[column]);
+      if (existing) {
+        return { row: existing, inserted: false };
+      }
+      await fs.appendFile(this.filePath, this.stringifier.stringifyRecords([toCsvRecord(row)]));
+      return { row, inserted: true };
+    });
+  }
+
+  insertMany(records) {
+    return this.serialize(async () => {
+      const rows = records.map(record => coerceRow(this.table, record));
+      if (rows.length > 0) {
+        await fs.appendFile(this.filePath, this.stringifier.stringifyRecords(rows.map(toCsvRecord)));
+      }
+      return rows;
+    });
+  }
+
+  update(id, changes) {
+    return this.serialize(async () => {
+      const rows = await this.readAll();
+      const index = rows.findIndex(row => row.id === id);
+      if (index === -1) {
+        return null;
+      }
+      rows[index] = coerceRow(this.table, { ...rows[index], ...changes });
+      await this.writeAll(rows);
+      return rows[index];
+    });
+  }
+
+  updateWhere(where, changes) {
+    return this.serialize(async () => {
+      const rows = await this.readAll();
+      let count = 0;
+      const updated = rows.map(row => {
+        if (!matchesWhere(row, where)) {
+          return row;
+        }
+        count++;
+        return coerceRow(this.table, { ...row, ...changes });
+      });
+      if (count > 0) {
+        await this.writeAll(updated);
+      }
+      return count;
+    });
+  }
+
+  increment(id, column, amount = 1) {
+    return this.serialize(async () => {
+      const rows = await this.readAll();
+      const row = rows.find(r => r.id === id);
+      if (!row) {
+        return null;
+      }
+      row[column] = (row[column] || 0) + amount;
+      await this.writeAll(rows);
+      return row;
+    });
+  }
+
+  incrementMany(column, amounts) {
+    return this.serialize(async () => {
+      const rows = await this.readAll();
+      let count = 0;
+      for (const row of rows) {
+        if (amounts.has(row.id)) {
+          row[column] = (row[column] || 0) + amounts.get(row.id);
+          count++;
+        }
+      }
+      if (count > 0) {
+        await this.writeAll(rows);
+      }
+      return count;
+    });
+  }
+
+  remove(id) {
+    return this.serialize(async () => {
+      const rows = await this.readAll();
+      const remaining = rows.filter(row => row.id !== id);
+      if (remaining.length === rows.length) {
+        return false;
+      }
+      await this.writeAll(remaining);
+      return true;
+    });
+  }
+
+  removeMany(ids) {
+    return this.serialize(async () => {
+      const removing = new Set(ids);
+      const rows = await this.readAll();
+      const remaining = rows.filter(row => !removing.has(row.id));
+      if (remaining.length < rows.length) {
+        await this.writeAll(remaining);
+      }
+      return rows.length - remaining.length;
+    });
+  }
+}
+
+export async function createCsvStorage({ dataDir }) {
+  await fs.mkdir(dataDir, { recursive: true });
+
+  const storage = { backend: 'csv', close: async () => {} };
+  for (const table of TABLE_NAMES) {
+    const repository = new CsvRepository(table, path.join(dataDir, `${table}.csv`));
+    await repository.init();
+    storage[table] = repository;
+  }
+  return storage;
+}
@@ -0,0 +1,36 @@
+import { createCsvStorage } from './csv.js';
+
+// Every backend exposes one repository per table (users, links, variants,
+// rules, clicks, conversions, campaigns, domains) with the same async interface:
+//
+//   all(where?)                    rows matching an equality filter, in insertion order
+//   iterate(where?)                the same rows as an async iterable, read a few at a time
+//   allIgnoreCase(column, value)   rows whose text column equals value regardless of case,
+//                                  for columns listed as caseInsensitive in schema.js
+//   find(where)                    first matching row or null
+//   insert(record)                 stored row
+//   insertIfAbsent(record)         { row, inserted }: the stored row, or the existing row
+//                                  with the same value in the table's unique column
+//   insertMany(records)            stored rows
+//   update(id, changes)            updated row or null
+//   updateWhere(where, changes)    number of rows changed
+//   increment(id, column, amount)  updated row or null
+//   incrementMany(column, amounts) rows changed, given a Map of id -> amount
+//   remove(id)                     whether a row was deleted
+//   removeMany(ids)                number of rows deleted
+//
+// A filter value can also be an array, which matches any of its entries.
+// Rows are always returned with the column types declared in schema.js.
+export async function createStorage({ backend, dataDir, sqlitePath }) {
+  switch (backend) {
+    case 'csv':
+      return createCsvStorage({ dataDir });
+    case 'sqlite': {
+      // Loaded lazily so the native module is only required when it is used
+      const { createSqliteStorage } = await import('./sqlite.js');
+      return createSqliteStorage({ sqlitePath });
+    }
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+}
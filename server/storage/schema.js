@@ -0,0 +1,212 @@
+// Table definitions shared by every storage backend.
+// Column types drive CSV coercion and SQLite column affinity:
+// text, boolean, integer or real. Empty integers and reals read back as null.
+// A table's unique column, if any, holds at most one row per value; see
+// insertIfAbsent() in storage/index.js. Columns listed in caseInsensitive can
+// be searched regardless of case with allIgnoreCase().
+export const TABLES = {
+  users: {
+    columns: {
+      id: 'text',
+      email: 'text',
+      password: 'text',
+      name: 'text',
+      plan: 'text',
+      postback_secret: 'text',
+      created_at: 'text'
+    },
+    indexes: [['email'], ['postback_secret']]
+  },
+  links: {
+    columns: {
+      id: 'text',
+      user_id: 'text',
+      original_url: 'text',
+      short_code: 'text',
+      title: 'text',
+      description: 'text',
+      campaign_id: 'text',
+      domain_id: 'text',
+      is_cloaked: 'boolean',
+      cloak_title: 'text',
+      cloak_description: 'text',
+      password_hash: 'text',
+      expires_at: 'text',
+      max_clicks: 'integer',
+      expired_redirect_url: 'text',
+      tags: 'text',
+      utm_source: 'text',
+      utm_medium: 'text',
+      utm_campaign: 'text',
+      utm_term: 'text',
+      utm_content: 'text',
+      ios_app_url: 'text',
+      ios_store_url: 'text',
+      android_app_url: 'text',
+      android_store_url: 'text',
+      is_active: 'boolean',
+      click_count: 'integer',
+      created_at: 'text',
+      updated_at: 'text'
+    },
+    indexes: [['short_code'], ['user_id'], ['campaign_id']],
+    // Short codes are unique per domain regardless of case
+    caseInsensitive: ['short_code']
+  },
+  clicks: {
+    columns: {
+      id: 'text',
+      link_id: 'text',
+      campaign_id: 'text',
+      ip_address: 'text',
+      visitor_id: 'text',
+      user_agent: 'text',
+      referer: 'text',
+      country: 'text',
+      city: 'text',
+      device_type: 'text',
+      browser: 'text',
+      os: 'text',
+      is_bot: 'boolean',
+      bot_name: 'text',
+      variant_id: 'text',
+      rule_id: 'text',
+      source: 'text',
+      created_at: 'text'
+    },
+    indexes: [['link_id'], ['campaign_id'], ['created_at']]
+  },
+  variants: {
+    columns: {
+      id: 'text',
+      link_id: 'text',
+      label: 'text',
+      url: 'text',
+      weight: 'integer',
+      created_at: 'text',
+      updated_at: 'text'
+    },
+    indexes: [['link_id']]
+  },
+  rules: {
+    columns: {
+      id: 'text',
+      link_id: 'text',
+      position: 'integer',
+      label: 'text',
+      match_type: 'text',
+      match_values: 'text',
+      timezone: 'text',
+      destination_url: 'text',
+      created_at: 'text',
+      updated_at: 'text'
+    },
+    indexes: [['link_id']]
+  },
+  conversions: {
+    columns: {
+      id: 'text',
+      click_id: 'text',
+      link_id: 'text',
+      campaign_id: 'text',
+      variant_id: 'text',
+      value: 'real',
+      currency: 'text',
+      source: 'text',
+      created_at: 'text'
+    },
+    indexes: [['link_id'], ['campaign_id']],
+    // Each click converts at most once
+    unique: ['click_id']
+  },
+  campaigns: {
+    columns: {
+      id: 'text',
+      user_id: 'text',
+      name: 'text',
+      description: 'text',
+      utm_source: 'text',
+      utm_medium: 'text',
+      utm_campaign: 'text',
+      utm_term: 'text',
+      utm_content: 'text',
+      is_active: 'boolean',
+      total_clicks: 'integer',
+      unique_clicks: 'integer',
+      conversion_rate: 'real',
+      archived_at: 'text',
+      created_at: 'text',
+      updated_at: 'text'
+    },
+    indexes: [['user_id']]
+  },
+  domains: {
+    columns: {
+      id: 'text',
+      user_id: 'text',
+      domain: 'text',
+      is_verified: 'boolean',
+      verification_token: 'text',
+      verified_at: 'text',
+      last_checked_at: 'text',
+      verification_error: 'text',
+      root_redirect_url: 'text',
+      logo_url: 'text',
+      brand_color: 'text',
+      background_color: 'text',
+      not_found_title: 'text',
+      not_found_message: 'text',
+      expired_title: 'text',
+      expired_message: 'text',
+      ios_app_ids: 'text',
+      android_package_name: 'text',
+      android_cert_fingerprints: 'text',
+      ssl_enabled: 'boolean',
+      is_active: 'boolean',
+      created_at: 'text',
+      updated_at: 'text'
+    },
+    indexes: [['user_id'], ['domain']]
+  }
+};
+
+export const TABLE_NAMES = Object.keys(TABLES);
+
+export function columnNames(table) {
+  return Object.keys(TABLES[table].columns);
+}
+
+// Convert a stored value (CSV text, SQLite integer, etc.) to its column type
+export function coerceValue(type, value) {
+  switch (type) {
+    case 'boolean':
+      return value === true || value === 'true' || value === 1 || value === '1';
+    case 'integer': {
+      if (value === null || value === undefined || value === '') return null;
+      const parsed = parseInt(value);
+      return isNaN(parsed) ? null : parsed;
+    }
+    case 'real': {
+      if (value === null || value === undefined || value === '') return null;
+      const parsed = parseFloat(value);
+      return isNaN(parsed) ? null : parsed;
+    }
+    default:
+      return value === null || value === undefined ? '' : String(value);
+  }
+}
+
+// Build a complete, typed row for a table, dropping unknown columns
+export function coerceRow(table, row) {
+  const result = {};
+  for (const [column, type] of Object.entries(TABLES[table].columns)) {
+    result[column] = coerceValue(type, row[column]);
+  }
+  return result;
+}
+
+export function matchesWhere(row, where = {}) {
+  return Object.entries(where).every(([column, value]) =>
+    Array.isArray(value) ? value.includes(row[column]) : row[column] === value
+  );
+}
@@ -0,0 +1,234 @@
+import fs from 'fs/promises';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { TABLES, TABLE_NAMES, columnNames, coerceRow } from './schema.js';
+
+// Rows per query when iterating; see iterate()
+const ITERATE_PAGE_SIZE = 1000;
+
+const SQL_TYPES = {
+  text: 'TEXT',
+  boolean: 'INTEGER',
+  integer: 'INTEGER',
+  real: 'REAL'
+};
+
+// SQLite has no boolean type; store them as 0/1
+function toSqlValue(value) {
+  if (value === true) return 1;
+  if (value === false) return 0;
+  return value === undefined ? null : value;
+}
+
+function quote(identifier) {
+  return `"${identifier}"`;
+}
+
+class SqliteRepository {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.columns = columnNames(table);
+    this.insertStatement = db.prepare(
+      `INSERT OR REPLACE INTO ${quote(table)} (${this.columns.map(quote).join(', ')}) VALUES (${this.columns.map(c => `@${c}`).join(', ')})`
+    );
+    this.insertIfAbsentStatement = db.prepare(
+      `INSERT OR IGNORE INTO ${quote(table)} (${this.columns.map(quote).join(', ')}) VALUES (${this.columns.map(c => `@${c}`).join(', ')})`
+    );
+  }
+
+  static createTable(db, table) {
+    const { columns, indexes, unique, caseInsensitive = [] } = TABLES[table];
+    const definitions = Object.entries(columns).map(([column, type]) =>
+      `${quote(column)} ${SQL_TYPES[type]}${column === 'id' ? ' PRIMARY KEY' : ''}`
+    );
+    db.exec(`CREATE TABLE IF NOT EXISTS ${quote(table)} (${definitions.join(', ')})`);
+
+    // Add columns introduced after the table was first created
+    const existing = new Set(db.prepare(`PRAGMA table_info(${quote(table)})`).all().map(c => c.name));
+    for (const [column, type] of Object.entries(columns)) {
+      if (!existing.has(column)) {
+        db.exec(`ALTER TABLE ${quote(table)} ADD COLUMN ${quote(column)} ${SQL_TYPES[type]}`);
+      }
+    }
+
+    for (const indexColumns of indexes) {
+      const name = `idx_${table}_${indexColumns.join('_')}`;
+      db.exec(`CREATE INDEX IF NOT EXISTS ${quote(name)} ON ${quote(table)} (${indexColumns.map(quote).join(', ')})`);
+    }
+
+    for (const column of caseInsensitive) {
+      db.exec(`CREATE INDEX IF NOT EXISTS ${quote(`idx_${table}_${column}_nocase`)} ON ${quote(table)} (${quote(column)} COLLATE NOCASE)`);
+    }
+
+    if (unique) {
+      // Databases created before the constraint may hold duplicates; keep the first of each
+      db.exec(`DELETE FROM ${quote(table)} WHERE ${quote(unique)} IS NOT NULL AND rowid NOT IN (SELECT MIN(rowid) FROM ${quote(table)} GROUP BY ${quote(unique)})`);
+      db.exec(`DROP INDEX IF EXISTS ${quote(`idx_${table}_${unique}`)}`);
+      db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS ${quote(`uniq_${table}_${unique}`)} ON ${quote(table)} (${quote(unique)})`);
+    }
+  }
+
+  toParams(row) {
+    const params = {};
+    for (const column of this.columns) {
+      params[column] = toSqlValue(row[column]);
+    }
+    return params;
+  }
+
+  whereClause(where = {}) {
+    const entries = Object.entries(where);
+    if (entries.length === 0) {
+      return { sql: '', params: [] };
+    }
+    const conditions = entries.map(([column, value]) => {
+      if (!Array.isArray(value)) {
+        return `${quote(column)} = ?`;
+      }
+      return value.length > 0 ? `${quote(column)} IN (${value.map(() => '?').join(', ')})` : '0';
+    });
+    return {
+      sql: ` WHERE ${conditions.join(' AND ')}`,
+      params: entries.flatMap(([, value]) => (Array.isArray(value) ? value : [value]).map(toSqlValue))
+    };
+  }
+
+  async all(where) {
+    const { sql, params } = this.whereClause(where);
+    return this.db.prepare(`SELECT * FROM ${quote(this.table)}${sql} ORDER BY rowid`).all(...params)
+      .map(row => coerceRow(this.table, row));
+  }
+
+  // Uses the column's NOCASE index; SQLite only folds ASCII letters, which is all short codes contain
+  async allIgnoreCase(column, value) {
+    return this.db.prepare(`SELECT * FROM ${quote(this.table)} WHERE ${quote(column)} = ? COLLATE NOCASE ORDER BY rowid`).all(value)
+      .map(row => coerceRow(this.table, row));
+  }
+
+  // Reads a page at a time by rowid rather than holding a statement.iterate()
+  // cursor open, which would block every other query on the connection while
+  // the consumer waits (e.g. on a slow export download)
+  async *iterate(where) {
+    const { sql, params } = this.whereClause(where);
+    const statement = this.db.prepare(
+      `SELECT rowid AS "_rowid", * FROM ${quote(this.table)} WHERE rowid > ?${sql.replace(' WHERE ', ' AND ')} ORDER BY rowid LIMIT ${ITERATE_PAGE_SIZE}`
+    );
+    let lastRowid = 0;
+    while (true) {
+      const page = statement.all(lastRowid, ...params);
+      for (const row of page) {
+        yield coerceRow(this.table, row);
+      }
+      if (page.length < ITERATE_PAGE_SIZE) {
+        return;
+      }
+      lastRowid = page[page.length - 1]._rowid;
+    }
+  }
+
+  async find(where) {
+    const { sql, params } = this.whereClause(where);
+    const row = this.db.prepare(`SELECT * FROM ${quote(this.table)}${sql} ORDER BY rowid LIMIT 1`).get(...params);
+    return row ? coerceRow(this.table, row) : null;
+  }
+
+  async insert(record) {
+    const row = coerceRow(this.table, record);
+    this.insertStatement.run(this.toParams(row));
+    return row;
+  }
+
+  // The unique index turns a concurrent duplicate into a no-op, even across processes
+  async insertIfAbsent(record) {
+    const row = coerceRow(this.table, record);
+    if (this.insertIfAbsentStatement.run(this.toParams(row)).changes > 0) {
+      return { row, inserted: true };
+    }
+    const column = TABLES[this.table].unique;
+    return { row: await this.find({ [column]: row[column] }), inserted: false };
+  }
+
+  async insertMany(records) {
+    const rows = records.map(record => coerceRow(this.table, record));
+    this.db.transaction(() => {
+      for (const row of rows) {
+        this.insertStatement.run(this.toParams(row));
+      }
+    })();
+    return rows;
+  }
+
+  async update(id, changes) {
+    const current = await this.find({ id });
+    if (!current) {
+      return null;
+    }
+    const row = coerceRow(this.table, { ...current, ...changes });
+    const assignments = this.columns.filter(c => c !== 'id').map(c => `${quote(c)} = @${c}`).join(', ');
+    this.db.prepare(`UPDATE ${quote(this.table)} SET ${assignments} WHERE "id" = @id`).run(this.toParams(row));
+    return row;
+  }
+
+  async updateWhere(where, changes) {
+    const entries = Object.entries(changes).filter(([column]) => this.columns.includes(column));
+    if (entries.length === 0) {
+      return 0;
+    }
+    const { sql, params } = this.whereClause(where);
+    const assignments = entries.map(([column]) => `${quote(column)} = ?`).join(', ');
+    const result = this.db.prepare(`UPDATE ${quote(this.table)} SET ${assignments}${sql}`)
+      .run(...entries.map(([, value]) => toSqlValue(value)), ...params);
+    return result.changes;
+  }
+
+  async increment(id, column, amount = 1) {
+    this.db.prepare(`UPDATE ${quote(this.table)} SET ${quote(column)} = COALESCE(${quote(column)}, 0) + ? WHERE "id" = ?`)
+      .run(amount, id);
+    return this.find({ id });
+  }
+
+  async incrementMany(column, amounts) {
+    const statement = this.db.prepare(`UPDATE ${quote(this.table)} SET ${quote(column)} = COALESCE(${quote(column)}, 0) + ? WHERE "id" = ?`);
+    return this.db.transaction(() => {
+      let count = 0;
+      for (const [id, amount] of amounts) {
+        count += statement.run(amount, id).changes;
+      }
+      return count;
+    })();
+  }
+
+  async remove(id) {
+    const result = this.db.prepare(`DELETE FROM ${quote(this.table)} WHERE "id" = ?`).run(id);
+    return result.changes > 0;
+  }
+
+  async removeMany(ids) {
+    const statement = this.db.prepare(`DELETE FROM ${quote(this.table)} WHERE "id" = ?`);
+    return this.db.transaction(() => {
+      let count = 0;
+      for (const id of ids) {
+        count += statement.run(id).changes;
+      }
+      return count;
+    })();
+  }
+}
+
+export async function createSqliteStorage({ sqlitePath }) {
+  await fs.mkdir(path.dirname(sqlitePath), { recursive: true });
+
+  const db = new Database(sqlitePath);
+  db.pragma('journal_mode = WAL');
+
+  const storage = {
+    backend: 'sqlite',
+    close: async () => db.close()
+  };
+  for (const table of TABLE_NAMES) {
+    SqliteRepository.createTable(db, table);
+    storage[table] = new SqliteRepository(db, table);
+  }
+  return storage;
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateAlias, takenCodesFor, suggestAliases } from '../links/aliases.js';
+
+test('validateAlias accepts letters, numbers, dashes and underscores', () => {
+  assert.equal(validateAlias('Summer_Sale-2024'), null);
+  assert.equal(validateAlias('abc'), null);
+});
+
+test('validateAlias rejects malformed, reserved and non-text aliases', () => {
+  assert.match(validateAlias('ab'), /3-50 letters/);
+  assert.match(validateAlias('a'.repeat(51)), /3-50 letters/);
+  assert.match(validateAlias('sale!'), /3-50 letters/);
+  assert.match(validateAlias(['sale']), /3-50 letters/);
+  assert.match(validateAlias(12345), /3-50 letters/);
+  assert.equal(validateAlias('API'), '"API" is reserved');
+});
+
+test('takenCodesFor lists a domain\'s codes in lower case', () => {
+  const links = [
+    { id: 'link-1', short_code: 'Promo', domain_id: '' },
+    { id: 'link-2', short_code: 'sale', domain_id: null },
+    { id: 'link-3', short_code: 'Launch', domain_id: 'domain-1' }
+  ];
+  assert.deepEqual(takenCodesFor(links), new Set(['promo', 'sale']));
+  assert.deepEqual(takenCodesFor(links, 'domain-1'), new Set(['launch']));
+  assert.deepEqual(takenCodesFor(links, '', 'link-1'), new Set(['sale']));
+});
+
+test('suggestAliases offers free, valid alternatives', () => {
+  const suggestions = suggestAliases('promo', new Set(['promo', 'promo-2']));
+  assert.equal(suggestions.length, 3);
+  assert.equal(suggestions[0], 'promo-3');
+  assert.equal(suggestions[1], `promo-${new Date().getFullYear()}`);
+  for (const suggestion of suggestions) {
+    assert.equal(validateAlias(suggestion), null);
+  }
+});
@@ -0,0 +1,92 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { once } from 'events';
+import fs from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const serverPath = path.join(path.dirname(fileURLToPath(import.meta.url)), '../index.js');
+const BROWSER_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+
+let server;
+let dataDir;
+let baseUrl;
+
+async function freePort() {
+  const probe = net.createServer().listen(0);
+  await once(probe, 'listening');
+  const { port } = probe.address();
+  probe.close();
+  return port;
+}
+
+async function waitForServer() {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    try {
+      await fetch(`${baseUrl}/health`);
+      return;
+    } catch (error) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+  throw new Error('Server did not start');
+}
+
+async function api(pathname, { token, ...options } = {}) {
+  const response = await fetch(`${baseUrl}/api${pathname}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    }
+  });
+  return response.json();
+}
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'linktracker-test-'));
+  const port = await freePort();
+  baseUrl = `http://127.0.0.1:${port}`;
+  server = spawn(process.execPath, [serverPath], {
+    env: { ...process.env, DATA_DIR: dataDir, PORT: String(port), CLICK_FLUSH_INTERVAL_MS: '50' },
+    stdio: 'ignore'
+  });
+  await waitForServer();
+});
+
+after(async () => {
+  server.kill('SIGTERM');
+  await once(server, 'exit');
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+test('concurrent visitors cannot go past a link\'s click cap', async () => {
+  const { token } = await api('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify({ email: 'cap@example.com', password: 'password123', name: 'Cap' })
+  });
+  const link = await api('/links', {
+    method: 'POST',
+    token,
+    body: JSON.stringify({ original_url: 'https://example.com/', max_clicks: 5 })
+  });
+
+  const statuses = [];
+  for (let round = 0; round < 2; round++) {
+    const responses = await Promise.all(Array.from({ length: 20 }, () =>
+      fetch(`${baseUrl}/${link.short_code}`, { redirect: 'manual', headers: { 'User-Agent': BROWSER_UA } })
+    ));
+    statuses.push(...responses.map(response => response.status));
+  }
+
+  assert.equal(statuses.filter(status => status === 302).length, 5);
+  assert.equal(statuses.filter(status => status === 410).length, 35);
+
+  // Let the click buffer flush before reading the stored count
+  await new Promise(resolve => setTimeout(resolve, 300));
+  const links = await api('/links', { token });
+  assert.equal(links.find(({ id }) => id === link.id).click_count, 5);
+});
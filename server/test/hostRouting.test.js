@@ -0,0 +1,46 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createCsvStorage } from '../storage/csv.js';
+import { createHostRouter } from '../domains/hostRouting.js';
+
+let dataDir;
+let hostRouter;
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'linktracker-test-'));
+  const storage = await createCsvStorage({ dataDir });
+  await storage.domains.insertMany([
+    { id: 'domain-verified', domain: 'go.example.com', is_verified: true, is_active: true },
+    { id: 'domain-pending', domain: 'pending.example.com', is_verified: false, is_active: true }
+  ]);
+  await storage.links.insertMany([
+    { id: 'link-default', short_code: 'sale', domain_id: '' },
+    { id: 'link-custom', short_code: 'Sale', domain_id: 'domain-verified' },
+    { id: 'link-pending', short_code: 'launch', domain_id: 'domain-pending' }
+  ]);
+  hostRouter = createHostRouter({ storage });
+});
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+test('each host serves only its own links', async () => {
+  assert.equal((await hostRouter.findLink('localhost', 'sale')).id, 'link-default');
+  assert.equal((await hostRouter.findLink('go.example.com', 'Sale')).id, 'link-custom');
+});
+
+test('links on custom domains are not served on the default host', async () => {
+  assert.equal(await hostRouter.findLink('localhost', 'launch'), null);
+  // Unverified domains fall back to the default host, which still doesn't serve their links
+  assert.equal(await hostRouter.findLink('pending.example.com', 'launch'), null);
+});
+
+test('short codes and host names match regardless of case', async () => {
+  assert.equal((await hostRouter.findLink('localhost', 'SALE')).id, 'link-default');
+  assert.equal((await hostRouter.findLink('GO.example.com', 'sAlE')).id, 'link-custom');
+  assert.equal(await hostRouter.findLink('go.example.com', 'missing'), null);
+});
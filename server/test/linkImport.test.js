@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ImportError, parseCsv, guessMapping, checkMapping, validateImportRows } from '../import/linkImport.js';
+import { validateAlias } from '../links/aliases.js';
+
+const mapping = { original_url: 'URL', title: 'Name', short_code: 'Alias', expires_at: 'Expires', tags: 'Tags' };
+
+function validate(records, takenCodes = new Set()) {
+  return validateImportRows(records, mapping, { takenCodes, validateAlias });
+}
+
+test('valid rows come back cleaned up, numbered as in a spreadsheet', () => {
+  const [row] = validate([
+    { URL: ' https://example.com/a ', Name: 'Launch', Alias: 'Launch-Day', Expires: '2999-01-01', Tags: 'news; launch|news' }
+  ]);
+  assert.equal(row.row, 2);
+  assert.deepEqual(row.errors, []);
+  assert.deepEqual(row.fields, {
+    original_url: 'https://example.com/a',
+    title: 'Launch',
+    campaign: '',
+    short_code: 'Launch-Day',
+    expires_at: '2999-01-01T00:00:00.000Z',
+    tags: 'news,launch'
+  });
+});
+
+test('rows with bad URLs and expiry dates report each problem', () => {
+  const [missing, script, badDate, pastDate] = validate([
+    { URL: '' },
+    { URL: 'javascript:alert(1)' },
+    { URL: 'https://example.com/', Expires: 'someday' },
+    { URL: 'https://example.com/', Expires: '2000-01-01' }
+  ]);
+  assert.deepEqual(missing.errors, ['original_url is required']);
+  assert.deepEqual(script.errors, ['original_url must be an http or https URL']);
+  assert.deepEqual(badDate.errors, ['Invalid expiry date: someday']);
+  assert.deepEqual(pastDate.errors, ['Expiry date is in the past']);
+});
+
+test('aliases must be valid, free and unique within the file regardless of case', () => {
+  const rows = validate([
+    { URL: 'https://example.com/', Alias: 'x' },
+    { URL: 'https://example.com/', Alias: 'Promo' },
+    { URL: 'https://example.com/', Alias: 'spring' },
+    { URL: 'https://example.com/', Alias: 'SPRING' }
+  ], new Set(['promo']));
+  assert.match(rows[0].errors[0], /3-50 letters/);
+  assert.deepEqual(rows[1].errors, ['Alias "Promo" is already taken']);
+  assert.deepEqual(rows[2].errors, []);
+  assert.deepEqual(rows[3].errors, ['Alias "SPRING" appears more than once in the file']);
+});
+
+test('the mapping is guessed from common header names and checked against the file', async () => {
+  const { columns, records } = await parseCsv(Buffer.from('\uFEFFDestination,Slug,Expiration Date\nhttps://example.com/,promo,\n'));
+  assert.deepEqual(columns, ['Destination', 'Slug', 'Expiration Date']);
+  assert.equal(records.length, 1);
+  assert.deepEqual(guessMapping(columns), { original_url: 'Destination', short_code: 'Slug', expires_at: 'Expiration Date' });
+
+  assert.throws(() => checkMapping(['Destination'], columns), ImportError);
+  assert.throws(() => checkMapping({ url: 'Destination' }, columns), /Unknown import field: url/);
+  assert.throws(() => checkMapping({ original_url: 'Link' }, columns), /Column not found in file: Link/);
+  assert.throws(() => checkMapping({ title: 'Slug' }, columns), /A column must be mapped to original_url/);
+});
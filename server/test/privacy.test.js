@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { anonymizeIp } from '../ingest/privacy.js';
+
+test('anonymizeIp zeroes the last IPv4 octet', () => {
+  assert.equal(anonymizeIp('203.0.113.42'), '203.0.113.0');
+  assert.equal(anonymizeIp('::ffff:198.51.100.7'), '198.51.100.0');
+});
+
+test('anonymizeIp keeps the first 48 bits of an IPv6 address', () => {
+  assert.equal(anonymizeIp('2001:db8:85a3:8d3:1319:8a2e:370:7348'), '2001:db8:85a3::');
+  assert.equal(anonymizeIp('2001:db8::1'), '2001:db8:0::');
+  assert.equal(anonymizeIp('::1'), '0:0:0::');
+});
+
+test('anonymizeIp drops anything that is not an IP address', () => {
+  assert.equal(anonymizeIp(''), '');
+  assert.equal(anonymizeIp(undefined), '');
+  assert.equal(anonymizeIp('unknown'), '');
+});
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RuleError, parseRules, preferredLanguage, targetingContext, matchesRule, findMatchingRule } from '../links/targeting.js';
+
+const DESTINATION = 'https://example.com/landing';
+
+function rule(match_type, match_values, extra = {}) {
+  return parseRules([{ match_type, match_values, destination_url: DESTINATION, ...extra }])[0];
+}
+
+function context(overrides = {}) {
+  return { device: 'desktop', os: 'Windows', country: 'US', language: 'en-us', now: new Date('2024-06-05T12:00:00Z'), ...overrides };
+}
+
+test('parseRules normalizes values and numbers rules in order', () => {
+  const rules = parseRules([
+    { match_type: 'country', match_values: 'us, ca', destination_url: DESTINATION },
+    { match_type: 'day', match_values: ['weekend', 'Monday'], destination_url: DESTINATION, id: 'rule-1' },
+    { match_type: 'language', match_values: 'PT_BR', destination_url: DESTINATION, label: 'Brazil' }
+  ]);
+  assert.deepEqual(rules.map(({ position, match_values }) => [position, match_values]), [
+    [1, 'US,CA'],
+    [2, 'sat,sun,mon'],
+    [3, 'pt-br']
+  ]);
+  assert.equal(rules[0].label, 'country: US, CA');
+  assert.equal(rules[0].timezone, 'UTC');
+  assert.equal(rules[1].id, 'rule-1');
+  assert.equal(rules[2].label, 'Brazil');
+});
+
+test('parseRules rejects invalid rules with the rule\'s position', () => {
+  assert.throws(() => parseRules('country'), RuleError);
+  assert.throws(() => parseRules([null]), /Rule 1 must be an object/);
+  assert.throws(() => parseRules([{ match_type: 'browser', match_values: 'Chrome', destination_url: DESTINATION }]), /Rule 1 must match on one of/);
+  assert.throws(() => parseRules([{ match_type: 'device', match_values: ' , ', destination_url: DESTINATION }]), /Rule 1 needs at least one value/);
+  assert.throws(() => parseRules([{ match_type: 'device', match_values: 'phone', destination_url: DESTINATION }]), /Unknown device type "phone"/);
+  assert.throws(() => parseRules([{ match_type: 'country', match_values: 'USA', destination_url: DESTINATION }]), /not a two-letter country code/);
+  assert.throws(() => parseRules([{ match_type: 'time', match_values: '9-17', destination_url: DESTINATION }]), /not a time range/);
+  assert.throws(() => parseRules([{ match_type: 'os', match_values: 'iOS', timezone: 'Nowhere/City', destination_url: DESTINATION }]), /unknown time zone/);
+  assert.throws(() => parseRules([{ match_type: 'os', match_values: 'iOS', destination_url: 'javascript:alert(1)' }]), /Rule 1 needs an http\(s\) destination URL/);
+});
+
+test('preferredLanguage picks the highest-weighted tag', () => {
+  assert.equal(preferredLanguage('fr-CA,fr;q=0.9,en;q=0.8'), 'fr-ca');
+  assert.equal(preferredLanguage('en;q=0.5, de;q=0.9'), 'de');
+  assert.equal(preferredLanguage('*;q=1, es;q=0'), '');
+  assert.equal(preferredLanguage(undefined), '');
+});
+
+test('targetingContext treats requests without a device type as desktop', () => {
+  const result = targetingContext({
+    uaResult: { device: {}, os: { name: 'macOS' } },
+    country: 'DE',
+    acceptLanguage: 'de-DE,de;q=0.9'
+  });
+  assert.equal(result.device, 'desktop');
+  assert.equal(result.os, 'macOS');
+  assert.equal(result.country, 'DE');
+  assert.equal(result.language, 'de-de');
+});
+
+test('matchesRule matches devices, operating systems and countries', () => {
+  assert.equal(matchesRule(rule('device', 'mobile,tablet'), context({ device: 'tablet' })), true);
+  assert.equal(matchesRule(rule('device', 'mobile'), context()), false);
+  assert.equal(matchesRule(rule('os', 'ios'), context({ os: 'iOS' })), true);
+  assert.equal(matchesRule(rule('country', 'ca,us'), context()), true);
+  assert.equal(matchesRule(rule('country', 'ca'), context({ country: '' })), false);
+});
+
+test('a language matches its regional variants but not the other way round', () => {
+  assert.equal(matchesRule(rule('language', 'en'), context({ language: 'en-us' })), true);
+  assert.equal(matchesRule(rule('language', 'en-gb'), context({ language: 'en-us' })), false);
+  assert.equal(matchesRule(rule('language', 'en'), context({ language: 'eng' })), false);
+});
+
+test('day and time rules use the rule\'s time zone', () => {
+  // 2024-06-05T23:30Z is Wednesday night in UTC but already Thursday morning in Tokyo
+  const now = new Date('2024-06-05T23:30:00Z');
+  assert.equal(matchesRule(rule('day', 'wed'), context({ now })), true);
+  assert.equal(matchesRule(rule('day', 'thu', { timezone: 'Asia/Tokyo' }), context({ now })), true);
+  assert.equal(matchesRule(rule('time', '08:00-09:00', { timezone: 'Asia/Tokyo' }), context({ now })), true);
+  assert.equal(matchesRule(rule('time', '08:00-08:30', { timezone: 'Asia/Tokyo' }), context({ now })), false);
+});
+
+test('time ranges can run past midnight', () => {
+  const night = rule('time', '22:00-06:00');
+  assert.equal(matchesRule(night, context({ now: new Date('2024-06-05T23:00:00Z') })), true);
+  assert.equal(matchesRule(night, context({ now: new Date('2024-06-05T05:59:00Z') })), true);
+  assert.equal(matchesRule(night, context({ now: new Date('2024-06-05T06:00:00Z') })), false);
+});
+
+test('findMatchingRule returns the first match by position', () => {
+  const rules = parseRules([
+    { match_type: 'country', match_values: 'FR', destination_url: 'https://example.com/fr' },
+    { match_type: 'device', match_values: 'desktop', destination_url: 'https://example.com/desktop' },
+    { match_type: 'country', match_values: 'US', destination_url: 'https://example.com/us' }
+  ]);
+  assert.equal(findMatchingRule([...rules].reverse(), context()).destination_url, 'https://example.com/desktop');
+  assert.equal(findMatchingRule(rules, context({ device: 'mobile', country: 'DE' })), null);
+});
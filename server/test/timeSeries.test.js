@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalyticsQueryError, parseAnalyticsRange, bucketFor, bucketLabels, buildTimeSeries, isInRange, toWallClock } from '../analytics/timeSeries.js';
+
+test('date-only boundaries cover whole days in the requested zone', () => {
+  const range = parseAnalyticsRange({ from: '2024-06-01', to: '2024-06-02', tz: 'America/New_York' });
+  assert.equal(range.from.toISOString(), '2024-06-01T04:00:00.000Z');
+  assert.equal(range.to.toISOString(), '2024-06-03T03:59:59.999Z');
+  assert.equal(isInRange('2024-06-03T03:00:00Z', range), true);
+  assert.equal(isInRange('2024-06-03T04:00:00Z', range), false);
+});
+
+test('clicks are bucketed by the local calendar day', () => {
+  const range = parseAnalyticsRange({ from: '2024-06-01', to: '2024-06-02', tz: 'Asia/Tokyo' });
+  assert.equal(bucketFor('2024-05-31T15:30:00Z', range), '2024-06-01');
+  assert.equal(bucketFor('2024-05-31T14:30:00Z', range), '2024-05-31');
+});
+
+test('hourly buckets follow the local clock across daylight saving changes', () => {
+  // Clocks in Berlin jump from 02:00 to 03:00 on 2024-03-31: the day lasts 23
+  // hours, and the skipped wall-clock hour stays an empty bucket
+  const spring = parseAnalyticsRange({ from: '2024-03-31', to: '2024-03-31', granularity: 'hour', tz: 'Europe/Berlin' });
+  assert.equal(spring.to.getTime() - spring.from.getTime(), 23 * 60 * 60 * 1000 - 1);
+  assert.equal(bucketFor('2024-03-31T00:30:00Z', spring), '2024-03-31T01:00');
+  assert.equal(bucketFor('2024-03-31T01:30:00Z', spring), '2024-03-31T03:00');
+  const series = buildTimeSeries([{ created_at: '2024-03-31T00:30:00Z' }, { created_at: '2024-03-31T01:30:00Z' }], spring);
+  assert.equal(series.length, 24);
+  assert.deepEqual(series.slice(1, 4).map(({ clicks }) => clicks), [1, 0, 1]);
+
+  // New York repeats 01:00-02:00 on 2024-11-03; both passes land in the same bucket
+  const fall = parseAnalyticsRange({ from: '2024-11-03', to: '2024-11-03', granularity: 'hour', tz: 'America/New_York' });
+  assert.equal(fall.to.getTime() - fall.from.getTime(), 25 * 60 * 60 * 1000 - 1);
+  assert.equal(bucketFor('2024-11-03T05:30:00Z', fall), '2024-11-03T01:00');
+  assert.equal(bucketFor('2024-11-03T06:30:00Z', fall), '2024-11-03T01:00');
+});
+
+test('a day bucket spans the whole local day across a DST change', () => {
+  const range = parseAnalyticsRange({ from: '2024-03-30', to: '2024-04-01', tz: 'Europe/Berlin' });
+  const series = buildTimeSeries([
+    { created_at: '2024-03-30T22:59:00Z' },
+    { created_at: '2024-03-30T23:00:00Z' },
+    { created_at: '2024-03-31T21:59:00Z' },
+    { created_at: '2024-03-31T22:00:00Z' }
+  ], range);
+  assert.deepEqual(series, [
+    { date: '2024-03-30', clicks: 1 },
+    { date: '2024-03-31', clicks: 2 },
+    { date: '2024-04-01', clicks: 1 }
+  ]);
+});
+
+test('weeks start on Monday and months on the first', () => {
+  const week = parseAnalyticsRange({ from: '2024-06-01', to: '2024-06-12', granularity: 'week' });
+  assert.deepEqual(bucketLabels(week), ['2024-05-27', '2024-06-03', '2024-06-10']);
+
+  const month = parseAnalyticsRange({ from: '2024-01-31', to: '2024-03-01', granularity: 'month' });
+  assert.deepEqual(bucketLabels(month), ['2024-01', '2024-02', '2024-03']);
+});
+
+test('toWallClock shifts an instant to the zone\'s local time', () => {
+  assert.equal(toWallClock(new Date('2024-01-15T12:00:00Z'), 'Asia/Kolkata').toISOString(), '2024-01-15T17:30:00.000Z');
+});
+
+test('invalid queries are rejected', () => {
+  assert.throws(() => parseAnalyticsRange({ tz: 'Mars/Olympus' }), AnalyticsQueryError);
+  assert.throws(() => parseAnalyticsRange({ granularity: 'minute' }), AnalyticsQueryError);
+  assert.throws(() => parseAnalyticsRange({ from: 'yesterday' }), AnalyticsQueryError);
+  assert.throws(() => parseAnalyticsRange({ from: '2024-02-01', to: '2024-01-01' }), /from must be before to/);
+  assert.throws(
+    () => parseAnalyticsRange({ from: '2020-01-01', to: '2024-01-01', granularity: 'hour' }),
+    /Range is too large for hour granularity/
+  );
+});
+
+test('the bucket limit can be lifted for callers that do not bucket', () => {
+  const range = parseAnalyticsRange({ from: '2020-01-01', to: '2030-01-01' }, { limitBuckets: false });
+  assert.equal(range.from.toISOString(), '2020-01-01T00:00:00.000Z');
+  assert.equal(range.granularity, 'day');
+});
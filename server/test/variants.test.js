@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_VARIANTS, VariantError, parseVariants, pickVariant } from '../links/variants.js';
+
+const variants = [
+  { id: 'a', url: 'https://example.com/a', weight: 1 },
+  { id: 'b', url: 'https://example.com/b', weight: 3 },
+  { id: 'paused', url: 'https://example.com/paused', weight: 0 }
+];
+
+test('pickVariant draws by weight', () => {
+  // Weights 1 and 3 split [0, 4) into [0, 1) for a and [1, 4) for b
+  assert.equal(pickVariant(variants, '', () => 0).id, 'a');
+  assert.equal(pickVariant(variants, '', () => 0.24).id, 'a');
+  assert.equal(pickVariant(variants, '', () => 0.25).id, 'b');
+  assert.equal(pickVariant(variants, '', () => 0.999).id, 'b');
+});
+
+test('pickVariant keeps a visitor on their live variant', () => {
+  assert.equal(pickVariant(variants, 'a', () => 0.999).id, 'a');
+});
+
+test('visitors on a paused or removed variant are drawn again', () => {
+  assert.equal(pickVariant(variants, 'paused', () => 0.5).id, 'b');
+  assert.equal(pickVariant(variants, 'deleted', () => 0).id, 'a');
+});
+
+test('pickVariant returns null when no variant is live', () => {
+  assert.equal(pickVariant([], ''), null);
+  assert.equal(pickVariant([variants[2]], 'paused'), null);
+});
+
+test('parseVariants fills in labels and weights', () => {
+  const parsed = parseVariants([
+    { url: ' https://example.com/a ' },
+    { id: 'variant-2', label: 'Long form', url: 'https://example.com/b', weight: '0' }
+  ]);
+  assert.deepEqual(parsed, [
+    { id: '', label: 'Variant A', url: 'https://example.com/a', weight: 1 },
+    { id: 'variant-2', label: 'Long form', url: 'https://example.com/b', weight: 0 }
+  ]);
+});
+
+test('parseVariants rejects invalid lists', () => {
+  assert.throws(() => parseVariants({}), VariantError);
+  assert.throws(() => parseVariants([null]), /Variant 1 must be an object/);
+  assert.throws(() => parseVariants([{ url: 'https://example.com/' }, 'https://example.com/b']), /Variant 2 must be an object/);
+  assert.throws(() => parseVariants(Array.from({ length: MAX_VARIANTS + 1 }, () => ({ url: 'https://example.com/' }))), /at most/);
+  assert.throws(() => parseVariants([{ url: 'ftp://example.com/' }]), /Variant 1 needs an http\(s\) URL/);
+  assert.throws(() => parseVariants([{ url: 'https://example.com/', weight: 1.5 }]), /Variant 1 weight must be a whole number/);
+});
@@ -0,0 +1,138 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createCsvStorage } from '../storage/csv.js';
+import { checkDomain, createDomainVerifier, verificationRecords } from '../domains/verification.js';
+
+const CNAME_TARGET = 'linktracker.app';
+const TOKEN = 'abc123';
+
+// A resolver answering from fixed records; a value that is an Error is thrown instead
+function stubResolver({ txt = {}, cname = {} }) {
+  const answer = records => async hostname => {
+    const value = records[hostname];
+    if (value instanceof Error) {
+      throw value;
+    }
+    if (!value) {
+      throw Object.assign(new Error('no data'), { code: 'ENODATA' });
+    }
+    return value;
+  };
+  return { resolveTxt: answer(txt), resolveCname: answer(cname) };
+}
+
+function dnsError(code) {
+  return Object.assign(new Error(code), { code });
+}
+
+const domain = { id: 'domain-1', domain: 'go.example.com', verification_token: TOKEN };
+const validRecords = {
+  txt: { '_linktracker.go.example.com': [['linktracker-verification=', TOKEN]] },
+  cname: { 'go.example.com': ['LinkTracker.app.'] }
+};
+
+test('verificationRecords lists the CNAME and the TXT token record', () => {
+  assert.deepEqual(verificationRecords(domain, CNAME_TARGET), [
+    { type: 'CNAME', name: 'go.example.com', value: CNAME_TARGET },
+    { type: 'TXT', name: '_linktracker.go.example.com', value: `linktracker-verification=${TOKEN}` }
+  ]);
+});
+
+test('checkDomain verifies chunked TXT records and CNAMEs regardless of case and trailing dot', async () => {
+  const result = await checkDomain(domain, { resolver: stubResolver(validRecords), cnameTarget: CNAME_TARGET });
+  assert.equal(result.verified, true);
+  assert.equal(result.error, '');
+  assert.deepEqual(result.txt.values, [`linktracker-verification=${TOKEN}`]);
+  assert.deepEqual(result.cname.values, ['linktracker.app']);
+});
+
+test('checkDomain explains missing and wrong records', async () => {
+  const resolver = stubResolver({
+    txt: { '_linktracker.go.example.com': [['linktracker-verification=other']] }
+  });
+  const result = await checkDomain(domain, { resolver, cnameTarget: CNAME_TARGET });
+  assert.equal(result.verified, false);
+  assert.equal(result.txt.ok, false);
+  assert.equal(result.cname.ok, false);
+  assert.match(result.error, /TXT record _linktracker\.go\.example\.com does not contain the verification token/);
+  assert.match(result.error, /CNAME for go\.example\.com does not point to linktracker\.app/);
+});
+
+test('checkDomain reports lookup failures other than a missing record', async () => {
+  const resolver = stubResolver({
+    txt: { '_linktracker.go.example.com': dnsError('ETIMEOUT') },
+    cname: { 'go.example.com': dnsError('ENOTFOUND') }
+  });
+  const result = await checkDomain(domain, { resolver, cnameTarget: CNAME_TARGET });
+  assert.equal(result.verified, false);
+  assert.match(result.error, /DNS lookup failed \(ETIMEOUT\)/);
+  assert.match(result.error, /CNAME for go\.example\.com does not point/);
+});
+
+let dataDir;
+let storage;
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'linktracker-test-'));
+  storage = await createCsvStorage({ dataDir });
+});
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+async function insertDomain(id, userId) {
+  return storage.domains.insert({
+    ...domain,
+    id,
+    user_id: userId,
+    is_verified: false,
+    is_active: true,
+    created_at: new Date().toISOString()
+  });
+}
+
+test('the verifier stores the outcome and keeps the first verification time', async () => {
+  let records = { txt: {}, cname: {} };
+  const resolver = {
+    resolveTxt: hostname => stubResolver(records).resolveTxt(hostname),
+    resolveCname: hostname => stubResolver(records).resolveCname(hostname)
+  };
+  const verifier = createDomainVerifier({ storage, resolver, cnameTarget: CNAME_TARGET });
+  const pending = await insertDomain('domain-a', 'user-a');
+
+  const failed = await verifier.verify(pending);
+  assert.equal(failed.domain.is_verified, false);
+  assert.notEqual(failed.domain.verification_error, '');
+  assert.notEqual(failed.domain.last_checked_at, '');
+
+  records = validRecords;
+  const verified = await verifier.verify(failed.domain);
+  assert.equal(verified.domain.is_verified, true);
+  assert.equal(verified.domain.verification_error, '');
+  assert.notEqual(verified.domain.verified_at, '');
+
+  const rechecked = await verifier.verify(verified.domain);
+  assert.equal(rechecked.domain.verified_at, verified.domain.verified_at);
+});
+
+test('the verifier refuses a name another account already holds verified', async () => {
+  const verifier = createDomainVerifier({ storage, resolver: stubResolver(validRecords), cnameTarget: CNAME_TARGET });
+  const claim = await insertDomain('domain-b', 'user-b');
+
+  const { domain: updated, checks } = await verifier.verify(claim);
+  assert.equal(updated.is_verified, false);
+  assert.equal(checks.error, 'Domain is already verified by another account');
+});
+
+test('recheckUnverified re-checks every unverified domain', async () => {
+  const verifier = createDomainVerifier({ storage, resolver: stubResolver({}), cnameTarget: CNAME_TARGET });
+  await verifier.recheckUnverified();
+
+  const domains = await storage.domains.all();
+  assert.deepEqual(domains.map(({ id, is_verified }) => [id, is_verified]), [['domain-a', true], ['domain-b', false]]);
+  assert.match((await storage.domains.find({ id: 'domain-b' })).verification_error, /does not contain the verification token/);
+});
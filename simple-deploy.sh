@@ -66,6 +66,8 @@ Restart=always
 RestartSec=10
 Environment=NODE_ENV=production
 Environment=PORT=3001
+# Apache proxies the API, so take the client address from X-Forwarded-For
+Environment=TRUST_PROXY=loopback
 
 [Install]
 WantedBy=multi-user.target
@@ -7,12 +7,14 @@ import LinkManager from './components/LinkManager';
 import CampaignManager from './components/CampaignManager';
 import DomainManager from './components/DomainManager';
 import Analytics from './components/Analytics';
+import LinkAnalytics from './components/LinkAnalytics';
 import LoginForm from './components/Auth/LoginForm';
 import { User, LogOut, Bell, Search } from 'lucide-react';
 
 function AppContent() {
   const { user, logout, loading } = useAuth();
   const [activeTab, setActiveTab] = useState('dashboard');
+  const [selectedLinkId, setSelectedLinkId] = useState<string | null>(null);
 
   if (loading) {
     return (
@@ -26,18 +28,27 @@ function AppContent() {
     return <LoginForm />;
   }
 
+  const selectTab = (tab: string) => {
+    setSelectedLinkId(null);
+    setActiveTab(tab);
+  };
+
   const renderContent = () => {
+    if (selectedLinkId) {
+      return <LinkAnalytics linkId={selectedLinkId} onBack={() => setSelectedLinkId(null)} />;
+    }
+
     switch (activeTab) {
       case 'dashboard':
         return <Dashboard />;
       case 'links':
-        return <LinkManager />;
+        return <LinkManager onSelectLink={setSelectedLinkId} />;
       case 'campaigns':
         return <CampaignManager />;
       case 'domains':
         return <DomainManager />;
       case 'analytics':
-        return <Analytics />;
+        return <Analytics onSelectLink={setSelectedLinkId} />;
       default:
         return <Dashboard />;
     }
@@ -45,7 +56,7 @@ function AppContent() {
 
   return (
     <div className="flex h-screen bg-gray-100">
-      <Sidebar activeTab={activeTab} setActiveTab={setActiveTab} />
+      <Sidebar activeTab={activeTab} setActiveTab={selectTab} />
       
       <div className="flex-1 flex flex-col overflow-hidden">
         {/* Top Navigation */}
@@ -19,31 +19,80 @@ import {
   Calendar,
   Download,
   Filter,
+  Globe,
   TrendingUp
 } from 'lucide-react';
-import { Analytics as AnalyticsType } from '../types';
+import { Analytics as AnalyticsType, AnalyticsQuery, ExportFormat, ExportReport, Granularity } from '../types';
 import { api } from '../lib/api';
+import { buildQuery, daysAgo, toDateInput } from '../lib/analyticsQuery';
+import { countryName } from '../lib/countries';
+import { formatRevenue } from '../lib/revenue';
+import MetricDelta from './MetricDelta';
+import LinkStatusBadge from './LinkStatusBadge';
+import WorldMap from './WorldMap';
 
-export default function Analytics() {
+const EXPORT_OPTIONS: Array<{ report: ExportReport; format: ExportFormat; label: string }> = [
+  { report: 'clicks', format: 'csv', label: 'Raw clicks (CSV)' },
+  { report: 'clicks', format: 'ndjson', label: 'Raw clicks (NDJSON)' },
+  { report: 'links', format: 'csv', label: 'Link summary (CSV)' },
+  { report: 'links', format: 'ndjson', label: 'Link summary (NDJSON)' },
+  { report: 'timeseries', format: 'csv', label: 'Clicks over time (CSV)' }
+];
+
+interface AnalyticsProps {
+  onSelectLink?: (linkId: string) => void;
+}
+
+export default function Analytics({ onSelectLink }: AnalyticsProps) {
   const [analytics, setAnalytics] = useState<AnalyticsType | null>(null);
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState('7days');
+  const [customFrom, setCustomFrom] = useState(daysAgo(7));
+  const [customTo, setCustomTo] = useState(toDateInput(new Date()));
+  const [granularity, setGranularity] = useState<Granularity | 'auto'>('auto');
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [includeBots, setIncludeBots] = useState(false);
+  const [error, setError] = useState('');
 
   useEffect(() => {
-    loadAnalytics();
-  }, [dateRange]);
+    const query = buildQuery(dateRange, customFrom, customTo, granularity, { includeBots });
+    if (query) {
+      loadAnalytics(query);
+    }
+  }, [dateRange, customFrom, customTo, granularity, includeBots]);
 
-  const loadAnalytics = async () => {
+  const loadAnalytics = async (query: AnalyticsQuery) => {
     try {
-      const data = await api.getAnalytics();
+      const data = await api.getAnalytics(query);
       setAnalytics(data);
+      setError('');
     } catch (error) {
       console.error('Failed to load analytics:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load analytics');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleExport = async (report: ExportReport, format: ExportFormat) => {
+    const query = buildQuery(dateRange, customFrom, customTo, granularity, { includeBots });
+    if (!query) {
+      return;
+    }
+
+    setShowExportMenu(false);
+    setExporting(true);
+    try {
+      await api.downloadExport(report, format, query);
+    } catch (error) {
+      console.error('Failed to export analytics:', error);
+      setError(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -55,7 +104,7 @@ export default function Analytics() {
   if (!analytics) {
     return (
       <div className="text-center py-12">
-        <p className="text-gray-500">Failed to load analytics data</p>
+        <p className="text-gray-500">{error || 'Failed to load analytics data'}</p>
       </div>
     );
   }
@@ -68,9 +117,23 @@ export default function Analytics() {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
-          <p className="text-gray-600">Detailed insights into your link performance</p>
+          <p className="text-gray-600">
+            Detailed insights into your link performance
+            {!includeBots && (analytics.botClicks ?? 0) > 0 && (
+              <span className="text-sm text-gray-500"> &middot; {analytics.botClicks} bot clicks excluded</span>
+            )}
+          </p>
         </div>
         <div className="flex items-center space-x-4">
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeBots}
+              onChange={(e) => setIncludeBots(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+            />
+            Include bots
+          </label>
           <select
             value={dateRange}
             onChange={(e) => setDateRange(e.target.value)}
@@ -80,14 +143,70 @@ export default function Analytics() {
             <option value="30days">Last 30 days</option>
             <option value="90days">Last 90 days</option>
             <option value="1year">Last year</option>
+            <option value="custom">Custom range</option>
           </select>
-          <button className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50">
-            <Download className="h-4 w-4 mr-2" />
-            Export
-          </button>
+          {dateRange === 'custom' && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                value={customFrom}
+                max={customTo}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={customTo}
+                min={customFrom}
+                onChange={(e) => setCustomTo(e.target.value)}
+                className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          )}
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as Granularity | 'auto')}
+            className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="auto">Auto</option>
+            <option value="hour">Hourly</option>
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+            <option value="month">Monthly</option>
+          </select>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={exporting}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {exporting ? 'Exporting...' : 'Export'}
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 mt-2 w-56 bg-white rounded-md shadow-lg border border-gray-200 z-10">
+                {EXPORT_OPTIONS.map(({ report, format, label }) => (
+                  <button
+                    key={`${report}-${format}`}
+                    onClick={() => handleExport(report, format)}
+                    className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
@@ -100,7 +219,7 @@ export default function Analytics() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Clicks</p>
               <p className="text-2xl font-semibold text-gray-900">{analytics.totalClicks.toLocaleString()}</p>
-              <p className="text-sm text-green-600">+12% from last period</p>
+              <MetricDelta metric={analytics.metrics?.totalClicks} />
             </div>
           </div>
         </div>
@@ -115,7 +234,7 @@ export default function Analytics() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Unique Visitors</p>
               <p className="text-2xl font-semibold text-gray-900">{analytics.uniqueClicks.toLocaleString()}</p>
-              <p className="text-sm text-green-600">+8% from last period</p>
+              <MetricDelta metric={analytics.metrics?.uniqueClicks} />
             </div>
           </div>
         </div>
@@ -128,11 +247,11 @@ export default function Analytics() {
               </div>
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Click-through Rate</p>
+              <p className="text-sm font-medium text-gray-500">Unique Click Rate</p>
               <p className="text-2xl font-semibold text-gray-900">
-                {analytics.totalClicks > 0 ? ((analytics.uniqueClicks / analytics.totalClicks) * 100).toFixed(1) : '0'}%
+                {analytics.metrics?.uniqueRate.current ?? 0}%
               </p>
-              <p className="text-sm text-green-600">+3% from last period</p>
+              <MetricDelta metric={analytics.metrics?.uniqueRate} />
             </div>
           </div>
         </div>
@@ -146,8 +265,8 @@ export default function Analytics() {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Active Links</p>
-              <p className="text-2xl font-semibold text-gray-900">{analytics.topLinks.length}</p>
-              <p className="text-sm text-green-600">+2 new this week</p>
+              <p className="text-2xl font-semibold text-gray-900">{analytics.metrics?.activeLinks.current ?? 0}</p>
+              <p className="text-sm text-gray-500">{analytics.metrics?.newLinks.current ?? 0} new this period</p>
             </div>
           </div>
         </div>
@@ -209,11 +328,68 @@ export default function Analytics() {
             <XAxis type="number" />
             <YAxis dataKey="short_code" type="category" />
             <Tooltip />
-            <Bar dataKey="clicks" fill="#3B82F6" />
+            <Bar
+              dataKey="clicks"
+              fill="#3B82F6"
+              cursor={onSelectLink ? 'pointer' : undefined}
+              onClick={(data) => data.id && onSelectLink?.(data.id)}
+            />
           </BarChart>
         </ResponsiveContainer>
       </div>
 
+      {/* Geography */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Clicks by Country</h3>
+            <Globe className="h-5 w-5 text-gray-400" />
+          </div>
+          <WorldMap countries={analytics.countries || []} />
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Top Countries</h3>
+          {(analytics.countries || []).length === 0 ? (
+            <p className="text-sm text-gray-500">No location data in this period</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="pb-2">Country</th>
+                  <th className="pb-2 text-right">Clicks</th>
+                  <th className="pb-2 text-right">Share</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {(analytics.countries || []).slice(0, 10).map((country) => (
+                  <tr key={country.name}>
+                    <td className="py-2 text-gray-900">{countryName(country.name)}</td>
+                    <td className="py-2 text-right text-gray-900">{country.clicks.toLocaleString()}</td>
+                    <td className="py-2 text-right text-gray-500">
+                      {analytics.totalClicks > 0 ? Math.round((country.clicks / analytics.totalClicks) * 100) : 0}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {(analytics.cities || []).length > 0 && (
+            <>
+              <h4 className="mt-6 mb-2 text-sm font-medium text-gray-900">Top Cities</h4>
+              <ul className="space-y-1 text-sm">
+                {(analytics.cities || []).map((city) => (
+                  <li key={city.name} className="flex justify-between">
+                    <span className="text-gray-700">{city.name}</span>
+                    <span className="text-gray-900">{city.clicks.toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+
       {/* Detailed Analytics Table */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -233,7 +409,16 @@ export default function Analytics() {
                   Unique Clicks
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  CTR
+                  Unique Rate
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Share
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Conversions
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Revenue
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
@@ -241,8 +426,12 @@ export default function Analytics() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {analytics.topLinks.map((link, index) => (
-                <tr key={index} className="hover:bg-gray-50">
+              {(analytics.linkStats || []).map((link) => (
+                <tr
+                  key={link.id}
+                  onClick={() => onSelectLink?.(link.id)}
+                  className={`hover:bg-gray-50 ${onSelectLink ? 'cursor-pointer' : ''}`}
+                >
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       <div>
@@ -259,15 +448,23 @@ export default function Analytics() {
                     {link.clicks.toLocaleString()}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {Math.floor(link.clicks * 0.8).toLocaleString()}
+                    {link.uniqueClicks.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {link.uniqueRate ?? 0}%
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {link.share ?? 0}%
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {link.conversions.toLocaleString()}
+                    <span className="ml-1 text-gray-500">({link.conversionRate ?? 0}%)</span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {(Math.random() * 10 + 2).toFixed(1)}%
+                    {formatRevenue(link.revenue)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                      Active
-                    </span>
+                    <LinkStatusBadge status={link.status} />
                   </td>
                 </tr>
               ))}
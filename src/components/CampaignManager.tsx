@@ -1,16 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Mail, TrendingUp, Users } from 'lucide-react';
-import { Campaign } from '../types';
+import { Plus, Edit, Trash2, Mail, TrendingUp, Users, Archive, ArchiveRestore } from 'lucide-react';
+import { Campaign, UtmFields } from '../types';
 import { api } from '../lib/api';
+import { UTM_FIELDS } from '../lib/utm';
+import { formatRevenue } from '../lib/revenue';
+import UtmBuilder from './UtmBuilder';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  utm: {} as UtmFields
+};
 
 export default function CampaignManager() {
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [showForm, setShowForm] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [formData, setFormData] = useState({
-    name: '',
-    description: ''
-  });
+  const [formData, setFormData] = useState(emptyForm);
 
   useEffect(() => {
     loadCampaigns();
@@ -27,18 +35,72 @@ export default function CampaignManager() {
     }
   };
 
+  const openCreateForm = () => {
+    setEditingCampaign(null);
+    setFormData(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEditForm = (campaign: Campaign) => {
+    setEditingCampaign(campaign);
+    setFormData({
+      name: campaign.name,
+      description: campaign.description || '',
+      utm: Object.fromEntries(UTM_FIELDS.map(field => [field, campaign[field] || '']))
+    });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingCampaign(null);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const payload = { name: formData.name, description: formData.description, ...formData.utm };
+    try {
+      if (editingCampaign) {
+        await api.updateCampaign(editingCampaign.id, payload);
+      } else {
+        await api.createCampaign(payload);
+      }
+      closeForm();
+      setFormData(emptyForm);
+      loadCampaigns();
+    } catch (error) {
+      console.error('Failed to save campaign:', error);
+    }
+  };
+
+  const handleDelete = async (campaign: Campaign) => {
+    if (!window.confirm(`Delete the campaign "${campaign.name}"? Its links will be kept but no longer grouped under it.`)) {
+      return;
+    }
     try {
-      await api.createCampaign(formData);
-      setShowForm(false);
-      setFormData({ name: '', description: '' });
+      await api.deleteCampaign(campaign.id);
       loadCampaigns();
     } catch (error) {
-      console.error('Failed to create campaign:', error);
+      console.error('Failed to delete campaign:', error);
     }
   };
 
+  const handleToggleArchive = async (campaign: Campaign) => {
+    try {
+      if (campaign.archived_at) {
+        await api.unarchiveCampaign(campaign.id);
+      } else {
+        await api.archiveCampaign(campaign.id);
+      }
+      loadCampaigns();
+    } catch (error) {
+      console.error('Failed to update campaign:', error);
+    }
+  };
+
+  const archivedCount = campaigns.filter(campaign => campaign.archived_at).length;
+  const visibleCampaigns = campaigns.filter(campaign => showArchived || !campaign.archived_at);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -55,21 +117,36 @@ export default function CampaignManager() {
           <h1 className="text-2xl font-bold text-gray-900">Campaigns</h1>
           <p className="text-gray-600">Manage your email marketing campaigns</p>
         </div>
-        <button
-          onClick={() => setShowForm(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Campaign
-        </button>
+        <div className="flex items-center space-x-4">
+          {archivedCount > 0 && (
+            <label className="flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+              />
+              Show archived ({archivedCount})
+            </label>
+          )}
+          <button
+            onClick={openCreateForm}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Campaign
+          </button>
+        </div>
       </div>
 
-      {/* Create Campaign Form */}
+      {/* Create / Edit Campaign Form */}
       {showForm && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-          <div className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
             <div className="mt-3">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Create New Campaign</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                {editingCampaign ? 'Edit Campaign' : 'Create New Campaign'}
+              </h3>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700">
@@ -96,10 +173,18 @@ export default function CampaignManager() {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">UTM Template</label>
+                  <UtmBuilder values={formData.utm} onChange={(utm) => setFormData({ ...formData, utm })} />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Added to the destination of every link in this campaign when it is clicked.
+                  </p>
+                </div>
+
                 <div className="flex justify-end space-x-3 pt-4">
                   <button
                     type="button"
-                    onClick={() => setShowForm(false)}
+                    onClick={closeForm}
                     className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
                   >
                     Cancel
@@ -108,7 +193,7 @@ export default function CampaignManager() {
                     type="submit"
                     className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
                   >
-                    Create Campaign
+                    {editingCampaign ? 'Save Changes' : 'Create Campaign'}
                   </button>
                 </div>
               </form>
@@ -119,8 +204,11 @@ export default function CampaignManager() {
 
       {/* Campaigns Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {campaigns.map((campaign) => (
-          <div key={campaign.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        {visibleCampaigns.map((campaign) => (
+          <div
+            key={campaign.id}
+            className={`bg-white rounded-lg shadow-sm border border-gray-200 p-6 ${campaign.archived_at ? 'opacity-60' : ''}`}
+          >
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center">
                 <div className="flex-shrink-0">
@@ -129,15 +217,31 @@ export default function CampaignManager() {
                 <div className="ml-3">
                   <h3 className="text-lg font-medium text-gray-900">{campaign.name}</h3>
                   <p className="text-sm text-gray-500">
-                    {campaign.is_active ? 'Active' : 'Inactive'}
+                    {campaign.archived_at ? 'Archived' : campaign.is_active ? 'Active' : 'Inactive'}
+                    {campaign.link_count !== undefined && ` · ${campaign.link_count} ${campaign.link_count === 1 ? 'link' : 'links'}`}
                   </p>
                 </div>
               </div>
               <div className="flex items-center space-x-2">
-                <button className="text-gray-400 hover:text-gray-600">
+                <button
+                  onClick={() => openEditForm(campaign)}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Edit"
+                >
                   <Edit className="h-4 w-4" />
                 </button>
-                <button className="text-gray-400 hover:text-red-600">
+                <button
+                  onClick={() => handleToggleArchive(campaign)}
+                  className="text-gray-400 hover:text-gray-600"
+                  title={campaign.archived_at ? 'Restore' : 'Archive'}
+                >
+                  {campaign.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(campaign)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete"
+                >
                   <Trash2 className="h-4 w-4" />
                 </button>
               </div>
@@ -168,13 +272,25 @@ export default function CampaignManager() {
               </div>
             </div>
 
-            <div className="mt-4 pt-4 border-t border-gray-200">
+            <div className="mt-4 pt-4 border-t border-gray-200 space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-500">Conversions</span>
+                <span className="text-sm font-medium text-gray-900">
+                  {campaign.conversions ?? 0}
+                </span>
+              </div>
               <div className="flex justify-between items-center">
                 <span className="text-sm text-gray-500">Conversion Rate</span>
                 <span className="text-sm font-medium text-gray-900">
                   {campaign.conversion_rate}%
                 </span>
               </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-500">Revenue</span>
+                <span className="text-sm font-medium text-gray-900">
+                  {formatRevenue(campaign.revenue)}
+                </span>
+              </div>
             </div>
           </div>
         ))}
@@ -189,7 +305,7 @@ export default function CampaignManager() {
           </p>
           <div className="mt-6">
             <button
-              onClick={() => setShowForm(true)}
+              onClick={openCreateForm}
               className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
             >
               <Plus className="h-4 w-4 mr-2" />
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { api } from '../lib/api';
+
+// How to report conversions back to LinkTracker. Every redirect appends
+// lt_click_id to the destination URL and sets it in a cookie, so the
+// advertiser only has to send that ID back. Postbacks also carry the
+// account's secret, which must stay on the advertiser's server.
+export default function ConversionTracking() {
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState('');
+  const [regenerating, setRegenerating] = useState(false);
+
+  useEffect(() => {
+    api.getPostbackSecret()
+      .then(({ postback_secret }) => setSecret(postback_secret))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load the postback secret'));
+  }, []);
+
+  const handleRegenerate = async () => {
+    if (!window.confirm('Postbacks using the current secret will be refused. Generate a new one?')) {
+      return;
+    }
+    setRegenerating(true);
+    setError('');
+    try {
+      const { postback_secret } = await api.regeneratePostbackSecret();
+      setSecret(postback_secret);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate the postback secret');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const base = `${window.location.origin}/api/conversions`;
+  const postbackUrl = `${base}/postback?click_id={lt_click_id}&value={order_total}&currency=USD&secret=${secret || '{postback_secret}'}`;
+  const pixelTag = `<img src="${base}/pixel.gif?value={order_total}&currency=USD" width="1" height="1" alt="" />`;
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-900">Conversion Tracking</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Visitors arrive with an <code>lt_click_id</code> query parameter. Report a conversion with either method;
+        value and currency are optional, and each click is counted once.
+      </p>
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      <div className="mt-4 space-y-4">
+        <div>
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-700">Server postback (GET or POST)</p>
+            <button
+              onClick={handleRegenerate}
+              disabled={regenerating || !secret}
+              className="flex items-center text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              <RefreshCw className="h-3 w-3 mr-1" />
+              Regenerate secret
+            </button>
+          </div>
+          <code className="mt-1 block bg-gray-50 border border-gray-200 rounded p-3 text-xs text-gray-800 break-all">
+            {postbackUrl}
+          </code>
+          <p className="mt-1 text-xs text-gray-500">
+            Keep the secret on your server. It can also be sent in an <code>X-Postback-Secret</code> header
+            instead of the URL.
+          </p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-700">Tracking pixel on the confirmation page</p>
+          <code className="mt-1 block bg-gray-50 border border-gray-200 rounded p-3 text-xs text-gray-800 break-all">
+            {pixelTag}
+          </code>
+          <p className="mt-1 text-xs text-gray-500">
+            The pixel reads the click ID from the LinkTracker cookie. Add <code>click_id=</code> to the URL
+            as well if the browser blocks third-party cookies.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
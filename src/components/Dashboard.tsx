@@ -23,6 +23,14 @@ import {
 } from 'lucide-react';
 import { Analytics } from '../types';
 import { api } from '../lib/api';
+import { buildQuery } from '../lib/analyticsQuery';
+import MetricDelta from './MetricDelta';
+
+// The dashboard always covers the last 30 days in the browser's time zone,
+// compared with the 30 days before
+const DASHBOARD_RANGE = '30days';
+const PERIOD_LABEL = 'Last 30 days';
+const DELTA_LABEL = 'vs. previous 30 days';
 
 export default function Dashboard() {
   const [analytics, setAnalytics] = useState<Analytics | null>(null);
@@ -34,7 +42,7 @@ export default function Dashboard() {
 
   const loadAnalytics = async () => {
     try {
-      const data = await api.getAnalytics();
+      const data = await api.getAnalytics(buildQuery(DASHBOARD_RANGE, '', '', 'auto') || {});
       setAnalytics(data);
     } catch (error) {
       console.error('Failed to load analytics:', error);
@@ -78,7 +86,9 @@ export default function Dashboard() {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Clicks</p>
+              <p className="text-xs text-gray-400">{PERIOD_LABEL}</p>
               <p className="text-2xl font-semibold text-gray-900">{analytics.totalClicks.toLocaleString()}</p>
+              <MetricDelta metric={analytics.metrics?.totalClicks} label={DELTA_LABEL} />
             </div>
           </div>
         </div>
@@ -90,7 +100,9 @@ export default function Dashboard() {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Unique Visitors</p>
+              <p className="text-xs text-gray-400">{PERIOD_LABEL}</p>
               <p className="text-2xl font-semibold text-gray-900">{analytics.uniqueClicks.toLocaleString()}</p>
+              <MetricDelta metric={analytics.metrics?.uniqueClicks} label={DELTA_LABEL} />
             </div>
           </div>
         </div>
@@ -101,10 +113,12 @@ export default function Dashboard() {
               <TrendingUp className="h-8 w-8 text-yellow-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Conversion Rate</p>
+              <p className="text-sm font-medium text-gray-500">Unique Click Rate</p>
+              <p className="text-xs text-gray-400">{PERIOD_LABEL}</p>
               <p className="text-2xl font-semibold text-gray-900">
-                {analytics.totalClicks > 0 ? ((analytics.uniqueClicks / analytics.totalClicks) * 100).toFixed(1) : '0'}%
+                {analytics.metrics?.uniqueRate.current ?? 0}%
               </p>
+              <MetricDelta metric={analytics.metrics?.uniqueRate} label={DELTA_LABEL} />
             </div>
           </div>
         </div>
@@ -116,7 +130,9 @@ export default function Dashboard() {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Active Links</p>
-              <p className="text-2xl font-semibold text-gray-900">{analytics.topLinks.length}</p>
+              <p className="text-xs text-gray-400">{PERIOD_LABEL}</p>
+              <p className="text-2xl font-semibold text-gray-900">{analytics.metrics?.activeLinks.current ?? 0}</p>
+              <MetricDelta metric={analytics.metrics?.activeLinks} label={DELTA_LABEL} />
             </div>
           </div>
         </div>
@@ -1,12 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Globe, CheckCircle, XCircle, Shield, AlertTriangle } from 'lucide-react';
+import { Plus, Globe, CheckCircle, XCircle, Shield, AlertTriangle, Copy, RefreshCw, Settings } from 'lucide-react';
 import { Domain } from '../types';
 import { api } from '../lib/api';
+import DomainSettingsForm from './DomainSettingsForm';
 
 export default function DomainManager() {
   const [domains, setDomains] = useState<Domain[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [formError, setFormError] = useState('');
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [settingsDomain, setSettingsDomain] = useState<Domain | null>(null);
   const [formData, setFormData] = useState({
     domain: ''
   });
@@ -31,10 +35,24 @@ export default function DomainManager() {
     try {
       await api.createDomain(formData);
       setShowForm(false);
+      setFormError('');
       setFormData({ domain: '' });
       loadDomains();
     } catch (error) {
       console.error('Failed to create domain:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to add domain');
+    }
+  };
+
+  const handleVerify = async (domain: Domain) => {
+    setVerifyingId(domain.id);
+    try {
+      const updated = await api.verifyDomain(domain.id);
+      setDomains(domains.map(d => (d.id === updated.id ? updated : d)));
+    } catch (error) {
+      console.error('Failed to verify domain:', error);
+    } finally {
+      setVerifyingId(null);
     }
   };
 
@@ -69,6 +87,11 @@ export default function DomainManager() {
           <div className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white">
             <div className="mt-3">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Add Custom Domain</h3>
+              {formError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+                  {formError}
+                </div>
+              )}
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700">
@@ -90,7 +113,10 @@ export default function DomainManager() {
                 <div className="flex justify-end space-x-3 pt-4">
                   <button
                     type="button"
-                    onClick={() => setShowForm(false)}
+                    onClick={() => {
+                      setShowForm(false);
+                      setFormError('');
+                    }}
                     className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
                   >
                     Cancel
@@ -108,6 +134,17 @@ export default function DomainManager() {
         </div>
       )}
 
+      {settingsDomain && (
+        <DomainSettingsForm
+          domain={settingsDomain}
+          onClose={() => setSettingsDomain(null)}
+          onSaved={(updated) => {
+            setDomains(domains.map(d => (d.id === updated.id ? updated : d)));
+            setSettingsDomain(null);
+          }}
+        />
+      )}
+
       {/* Domains List */}
       <div className="bg-white shadow-sm rounded-lg overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -129,7 +166,9 @@ export default function DomainManager() {
                           <XCircle className="h-4 w-4 text-red-500 mr-1" />
                         )}
                         <span className={`text-sm ${domain.is_verified ? 'text-green-600' : 'text-red-600'}`}>
-                          {domain.is_verified ? 'Verified' : 'Not Verified'}
+                          {domain.is_verified && domain.verified_at
+                            ? `Verified ${new Date(domain.verified_at).toLocaleDateString()}`
+                            : domain.is_verified ? 'Verified' : 'Not Verified'}
                         </span>
                       </div>
                       <div className="flex items-center">
@@ -151,6 +190,13 @@ export default function DomainManager() {
                   }`}>
                     {domain.is_active ? 'Active' : 'Inactive'}
                   </span>
+                  <button
+                    onClick={() => setSettingsDomain(domain)}
+                    className="p-2 text-gray-400 hover:text-gray-600"
+                    title="Root redirect and branding"
+                  >
+                    <Settings className="h-4 w-4" />
+                  </button>
                 </div>
               </div>
 
@@ -161,36 +207,46 @@ export default function DomainManager() {
                     Add the following DNS records to verify your domain:
                   </p>
                   <div className="space-y-2">
-                    <div className="bg-white p-3 rounded border">
-                      <div className="grid grid-cols-3 gap-4 text-xs">
-                        <div>
-                          <strong>Type:</strong> CNAME
-                        </div>
-                        <div>
-                          <strong>Name:</strong> {domain.domain}
-                        </div>
-                        <div>
-                          <strong>Value:</strong> linktracker.app
-                        </div>
-                      </div>
-                    </div>
-                    <div className="bg-white p-3 rounded border">
-                      <div className="grid grid-cols-3 gap-4 text-xs">
-                        <div>
-                          <strong>Type:</strong> TXT
-                        </div>
-                        <div>
-                          <strong>Name:</strong> _linktracker
-                        </div>
-                        <div>
-                          <strong>Value:</strong> linktracker-verification=abc123
+                    {(domain.dns_records || []).map((record) => (
+                      <div key={record.type} className="bg-white p-3 rounded border">
+                        <div className="grid grid-cols-3 gap-4 text-xs">
+                          <div>
+                            <strong>Type:</strong> {record.type}
+                          </div>
+                          <div className="break-all">
+                            <strong>Name:</strong> {record.name}
+                          </div>
+                          <div className="flex items-start justify-between break-all">
+                            <span>
+                              <strong>Value:</strong> {record.value}
+                            </span>
+                            <button
+                              onClick={() => navigator.clipboard.writeText(record.value)}
+                              className="ml-2 text-gray-400 hover:text-gray-600"
+                            >
+                              <Copy className="h-3 w-3" />
+                            </button>
+                          </div>
                         </div>
                       </div>
-                    </div>
+                    ))}
                   </div>
-                  <button className="mt-3 text-sm text-blue-600 hover:text-blue-800 font-medium">
-                    Check Verification Status
+                  {domain.last_checked_at && domain.verification_error && (
+                    <p className="mt-3 text-xs text-red-700">
+                      Last checked {new Date(domain.last_checked_at).toLocaleString()}: {domain.verification_error}
+                    </p>
+                  )}
+                  <button
+                    onClick={() => handleVerify(domain)}
+                    disabled={verifyingId === domain.id}
+                    className="mt-3 inline-flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                  >
+                    <RefreshCw className={`h-4 w-4 mr-1 ${verifyingId === domain.id ? 'animate-spin' : ''}`} />
+                    {verifyingId === domain.id ? 'Checking...' : 'Check Verification Status'}
                   </button>
+                  <p className="mt-1 text-xs text-yellow-700">
+                    DNS changes can take a while to propagate. Unverified domains are re-checked automatically.
+                  </p>
                 </div>
               )}
             </div>
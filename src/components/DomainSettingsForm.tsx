@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Domain, DomainSettings } from '../types';
+import { api } from '../lib/api';
+
+interface DomainSettingsFormProps {
+  domain: Domain;
+  onClose: () => void;
+  onSaved: (domain: Domain) => void;
+}
+
+const TEXT_FIELDS: { field: keyof DomainSettings; label: string; placeholder: string; multiline?: boolean }[] = [
+  { field: 'not_found_title', label: 'Not found title', placeholder: 'Link not found' },
+  { field: 'not_found_message', label: 'Not found message', placeholder: 'The link you followed does not exist or has been removed.', multiline: true },
+  { field: 'expired_title', label: 'Expired title', placeholder: 'This link has expired' },
+  { field: 'expired_message', label: 'Expired message', placeholder: 'The link you followed is no longer available.', multiline: true }
+];
+
+export default function DomainSettingsForm({ domain, onClose, onSaved }: DomainSettingsFormProps) {
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<DomainSettings>({
+    root_redirect_url: domain.root_redirect_url || '',
+    logo_url: domain.logo_url || '',
+    brand_color: domain.brand_color || '',
+    background_color: domain.background_color || '',
+    not_found_title: domain.not_found_title || '',
+    not_found_message: domain.not_found_message || '',
+    expired_title: domain.expired_title || '',
+    expired_message: domain.expired_message || '',
+    ios_app_ids: domain.ios_app_ids || '',
+    android_package_name: domain.android_package_name || '',
+    android_cert_fingerprints: domain.android_cert_fingerprints || ''
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const updated = await api.updateDomain(domain.id, formData);
+      onSaved(updated);
+    } catch (error) {
+      console.error('Failed to update domain:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">{domain.domain} Settings</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          {formError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {formError}
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Root redirect URL</label>
+              <input
+                type="url"
+                value={formData.root_redirect_url}
+                onChange={(e) => setFormData({ ...formData, root_redirect_url: e.target.value })}
+                className={inputClass}
+                placeholder="https://yourdomain.com"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Where visitors to {domain.domain}/ are sent. Without one they see the not found page.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Logo URL</label>
+              <input
+                type="url"
+                value={formData.logo_url}
+                onChange={(e) => setFormData({ ...formData, logo_url: e.target.value })}
+                className={inputClass}
+                placeholder="https://yourdomain.com/logo.png"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {(['brand_color', 'background_color'] as const).map((field) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {field === 'brand_color' ? 'Brand color' : 'Background color'}
+                  </label>
+                  <div className="mt-1 flex items-center space-x-2">
+                    <input
+                      type="color"
+                      value={formData[field] || (field === 'brand_color' ? '#2563eb' : '#f3f4f6')}
+                      onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                      className="h-9 w-12 border border-gray-300 rounded"
+                    />
+                    <input
+                      type="text"
+                      value={formData[field]}
+                      onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                      className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Default"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {TEXT_FIELDS.map(({ field, label, placeholder, multiline }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700">{label}</label>
+                {multiline ? (
+                  <textarea
+                    rows={2}
+                    value={formData[field]}
+                    onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                    className={inputClass}
+                    placeholder={placeholder}
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={formData[field]}
+                    onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                    className={inputClass}
+                    placeholder={placeholder}
+                  />
+                )}
+              </div>
+            ))}
+
+            <div className="pt-4 border-t border-gray-200 space-y-4">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">Mobile Apps</h4>
+                <p className="mt-1 text-xs text-gray-500">
+                  Lets links on {domain.domain} open your app directly. These generate
+                  /.well-known/apple-app-site-association and /.well-known/assetlinks.json.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">iOS app IDs</label>
+                <input
+                  type="text"
+                  value={formData.ios_app_ids}
+                  onChange={(e) => setFormData({ ...formData, ios_app_ids: e.target.value })}
+                  className={inputClass}
+                  placeholder="ABCDE12345.com.example.app"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Android package name</label>
+                <input
+                  type="text"
+                  value={formData.android_package_name}
+                  onChange={(e) => setFormData({ ...formData, android_package_name: e.target.value })}
+                  className={inputClass}
+                  placeholder="com.example.app"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Android certificate fingerprints (SHA-256)</label>
+                <textarea
+                  rows={2}
+                  value={formData.android_cert_fingerprints}
+                  onChange={(e) => setFormData({ ...formData, android_cert_fingerprints: e.target.value })}
+                  className={inputClass}
+                  placeholder="14:6D:E9:83:C5:73:..."
+                />
+                <p className="mt-1 text-xs text-gray-500">Separate multiple values with commas.</p>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Settings'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
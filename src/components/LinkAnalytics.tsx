@@ -0,0 +1,409 @@
+import { useState, useEffect } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  PieChart,
+  Pie,
+  Cell,
+  Area,
+  AreaChart
+} from 'recharts';
+import { ArrowLeft, Calendar, ExternalLink, Filter, TrendingUp } from 'lucide-react';
+import { BreakdownItem, LinkAnalytics as LinkAnalyticsType } from '../types';
+import { api } from '../lib/api';
+import { buildQuery } from '../lib/analyticsQuery';
+import { countryName } from '../lib/countries';
+import { formatRevenue } from '../lib/revenue';
+import MetricDelta from './MetricDelta';
+import LinkStatusBadge from './LinkStatusBadge';
+import ConversionTracking from './ConversionTracking';
+
+const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6'];
+
+interface LinkAnalyticsProps {
+  linkId: string;
+  onBack: () => void;
+}
+
+function BreakdownChart({ title, data }: { title: string; data: BreakdownItem[] }) {
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
+      {data.length === 0 ? (
+        <p className="text-sm text-gray-500">No clicks in this period</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={250}>
+          <BarChart data={data} layout="vertical" margin={{ left: 24 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" allowDecimals={false} />
+            <YAxis dataKey="name" type="category" width={100} />
+            <Tooltip />
+            <Bar dataKey="clicks" fill="#3B82F6" />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
+
+export default function LinkAnalytics({ linkId, onBack }: LinkAnalyticsProps) {
+  const [analytics, setAnalytics] = useState<LinkAnalyticsType | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dateRange, setDateRange] = useState('30days');
+  const [includeBots, setIncludeBots] = useState(false);
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      try {
+        const data = await api.getLinkAnalytics(linkId, buildQuery(dateRange, '', '', 'auto', { includeBots }) || {});
+        setAnalytics(data);
+      } catch (error) {
+        console.error('Failed to load link analytics:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAnalytics();
+  }, [linkId, dateRange, includeBots]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!analytics) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">Failed to load analytics data</p>
+        <button onClick={onBack} className="mt-4 text-sm text-blue-600 hover:text-blue-800">
+          Go back
+        </button>
+      </div>
+    );
+  }
+
+  const { link, metrics } = analytics;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={onBack}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div>
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-gray-900">{link.title}</h1>
+              <LinkStatusBadge status={link.status} />
+            </div>
+            <div className="flex items-center space-x-2 text-gray-600">
+              <span>/{link.short_code}</span>
+              <span>&rarr;</span>
+              <a
+                href={link.original_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center truncate max-w-md hover:text-blue-600"
+              >
+                {link.original_url}
+                <ExternalLink className="h-4 w-4 ml-1 flex-shrink-0" />
+              </a>
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeBots}
+              onChange={(e) => setIncludeBots(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+            />
+            Include bots{!includeBots && analytics.botClicks > 0 && ` (${analytics.botClicks} excluded)`}
+          </label>
+          <select
+            value={dateRange}
+            onChange={(e) => setDateRange(e.target.value)}
+            className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="7days">Last 7 days</option>
+            <option value="30days">Last 30 days</option>
+            <option value="90days">Last 90 days</option>
+            <option value="1year">Last year</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Key Metrics */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center">
+                <TrendingUp className="h-5 w-5 text-blue-600" />
+              </div>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-500">Total Clicks</p>
+              <p className="text-2xl font-semibold text-gray-900">{analytics.totalClicks.toLocaleString()}</p>
+              <MetricDelta metric={metrics.totalClicks} />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-green-100 rounded-lg flex items-center justify-center">
+                <TrendingUp className="h-5 w-5 text-green-600" />
+              </div>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-500">Unique Visitors</p>
+              <p className="text-2xl font-semibold text-gray-900">{analytics.uniqueClicks.toLocaleString()}</p>
+              <MetricDelta metric={metrics.uniqueClicks} />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center">
+                <TrendingUp className="h-5 w-5 text-yellow-600" />
+              </div>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-500">Unique Click Rate</p>
+              <p className="text-2xl font-semibold text-gray-900">{metrics.uniqueRate.current ?? 0}%</p>
+              <MetricDelta metric={metrics.uniqueRate} />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-purple-100 rounded-lg flex items-center justify-center">
+                <TrendingUp className="h-5 w-5 text-purple-600" />
+              </div>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-500">Conversions</p>
+              <p className="text-2xl font-semibold text-gray-900">
+                {analytics.conversions.toLocaleString()}
+                <span className="ml-2 text-sm font-normal text-gray-500">{analytics.conversionRate ?? 0}%</span>
+              </p>
+              <p className="text-sm text-gray-500">{formatRevenue(analytics.revenue)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Charts Grid */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Clicks Over Time</h3>
+            <Calendar className="h-5 w-5 text-gray-400" />
+          </div>
+          <ResponsiveContainer width="100%" height={300}>
+            <AreaChart data={analytics.clicksByDay}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Area type="monotone" dataKey="clicks" stroke="#3B82F6" fill="#3B82F6" fillOpacity={0.1} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Device Breakdown</h3>
+            <Filter className="h-5 w-5 text-gray-400" />
+          </div>
+          {analytics.devices.length === 0 ? (
+            <p className="text-sm text-gray-500">No clicks in this period</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <PieChart>
+                <Pie
+                  data={analytics.devices}
+                  cx="50%"
+                  cy="50%"
+                  labelLine={false}
+                  label={({ name, percent }) => `${name} ${((percent ?? 0) * 100).toFixed(0)}%`}
+                  outerRadius={80}
+                  dataKey="clicks"
+                  nameKey="name"
+                >
+                  {analytics.devices.map((device, index) => (
+                    <Cell key={device.name} fill={COLORS[index % COLORS.length]} />
+                  ))}
+                </Pie>
+                <Tooltip />
+              </PieChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        <BreakdownChart title="Top Referrers" data={analytics.referrers} />
+        <BreakdownChart
+          title="Countries"
+          data={analytics.countries.map(country => ({ ...country, name: countryName(country.name) }))}
+        />
+        <BreakdownChart title="Cities" data={analytics.cities} />
+        <BreakdownChart title="Browsers" data={analytics.browsers} />
+        <BreakdownChart title="Operating Systems" data={analytics.operatingSystems} />
+        {analytics.rules.length > 0 && <BreakdownChart title="Targeting Rules" data={analytics.rules} />}
+        <BreakdownChart title="Sources" data={analytics.sources} />
+      </div>
+
+      {/* A/B Variants */}
+      {analytics.variants.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">A/B Variants</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Variant
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Weight
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Clicks
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Unique
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Share
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Conversions
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Revenue
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {analytics.variants.map((variant) => (
+                  <tr key={variant.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900">{variant.label}</div>
+                      {variant.url && <div className="text-gray-500 truncate max-w-xs">{variant.url}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {variant.weight > 0 ? variant.weight : 'Paused'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {variant.clicks.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {variant.uniqueClicks.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {variant.share ?? 0}%
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {variant.conversions.toLocaleString()}
+                      <span className="ml-1 text-gray-500">({variant.conversionRate ?? 0}%)</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatRevenue(variant.revenue)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Recent Clicks */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Recent Clicks</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Referrer
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Device
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Browser / OS
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Location
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {analytics.recentClicks.map((click) => (
+                <tr key={click.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(click.created_at).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500 truncate max-w-xs">
+                    {click.referer || 'Direct'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
+                    {click.device_type}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {[click.browser, click.os].filter(Boolean).join(' / ') || 'Unknown'}
+                    {click.is_bot && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        Bot{click.bot_name && `: ${click.bot_name}`}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {[click.city, click.country && countryName(click.country)].filter(Boolean).join(', ') || 'Unknown'}
+                  </td>
+                </tr>
+              ))}
+              {analytics.recentClicks.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No clicks in this period
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <ConversionTracking />
+    </div>
+  );
+}
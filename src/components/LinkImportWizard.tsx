@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle, FileText, Upload, X } from 'lucide-react';
+import { ImportField, ImportMapping, ImportResult } from '../types';
+import { api } from '../lib/api';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  original_url: 'Original URL *',
+  title: 'Title',
+  campaign: 'Campaign name',
+  short_code: 'Custom alias',
+  expires_at: 'Expires at',
+  tags: 'Tags'
+};
+
+const PREVIEW_ROWS = 100;
+
+interface LinkImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'done';
+
+export default function LinkImportWizard({ onClose, onImported }: LinkImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  // Every preview is a dry run, so nothing is created until the user confirms
+  const preview = async (selected: File, nextMapping?: ImportMapping) => {
+    setBusy(true);
+    setError('');
+    try {
+      const data = await api.importLinks(selected, { mapping: nextMapping, dryRun: true });
+      setMapping(data.mapping);
+      setResult(data);
+      setStep('map');
+    } catch (err) {
+      console.error('Failed to preview import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    if (selected) {
+      preview(selected);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    const nextMapping = { ...mapping, [field]: column || undefined };
+    setMapping(nextMapping);
+    if (file && nextMapping.original_url) {
+      preview(file, nextMapping);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setBusy(true);
+    setError('');
+    try {
+      const data = await api.importLinks(file, { mapping });
+      setResult(data);
+      setStep('done');
+      onImported();
+    } catch (err) {
+      console.error('Failed to import links:', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const failedRows = result ? result.rows.filter(row => row.status === 'error') : [];
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-4xl shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Import Links from CSV</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center py-12 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400">
+              <Upload className="h-8 w-8 text-gray-400 mb-2" />
+              <span className="text-sm font-medium text-gray-700">
+                {busy ? 'Reading file...' : 'Choose a CSV file'}
+              </span>
+              <span className="text-xs text-gray-500 mt-1">
+                Columns for URL, title, campaign, alias, expiry date and tags. Up to 5,000 rows.
+              </span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                disabled={busy}
+                onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+              />
+            </label>
+          )}
+
+          {step === 'map' && result && (
+            <div className="space-y-6">
+              <div className="flex items-center text-sm text-gray-600">
+                <FileText className="h-4 w-4 mr-2" />
+                {file?.name} &middot; {result.summary.total} rows
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Column mapping</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {(Object.keys(FIELD_LABELS) as ImportField[]).map((field) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700">{FIELD_LABELS[field]}</label>
+                      <select
+                        value={mapping[field] || ''}
+                        disabled={busy}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="">Not imported</option>
+                        {result.columns.map((column) => (
+                          <option key={column} value={column}>{column}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-6 text-sm">
+                <span className="flex items-center text-green-700">
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  {result.summary.valid} ready to import
+                </span>
+                {result.summary.invalid > 0 && (
+                  <span className="flex items-center text-red-700">
+                    <AlertCircle className="h-4 w-4 mr-1" />
+                    {result.summary.invalid} with errors (skipped)
+                  </span>
+                )}
+                {result.summary.newCampaigns.length > 0 && (
+                  <span className="text-gray-600">
+                    New campaigns: {result.summary.newCampaigns.join(', ')}
+                  </span>
+                )}
+              </div>
+
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">URL</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Alias</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Campaign</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {result.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                      <tr key={row.row} className={row.status === 'error' ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2 text-gray-900 truncate max-w-xs">{row.original_url}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.short_code || <span className="text-gray-400">auto</span>}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.campaign}</td>
+                        <td className="px-3 py-2">
+                          {row.status === 'error' ? (
+                            <span className="text-red-700">{row.errors.join('; ')}</span>
+                          ) : (
+                            <span className="text-green-700">OK</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {result.rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500">Showing the first {PREVIEW_ROWS} rows.</p>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setStep('upload');
+                    setFile(null);
+                    setResult(null);
+                  }}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Choose Another File
+                </button>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={busy || !mapping.original_url || result.summary.valid === 0}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {busy ? 'Working...' : `Import ${result.summary.valid} Links`}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="space-y-4">
+              <div className="flex items-center text-green-700">
+                <CheckCircle className="h-5 w-5 mr-2" />
+                Created {result.summary.created} links
+                {result.summary.newCampaigns.length > 0 && ` and ${result.summary.newCampaigns.length} campaigns`}.
+              </div>
+              {failedRows.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-red-700 mb-2">
+                    {failedRows.length} rows were skipped:
+                  </p>
+                  <ul className="max-h-60 overflow-y-auto text-sm text-gray-700 space-y-1">
+                    {failedRows.map((row) => (
+                      <li key={row.row}>
+                        Row {row.row}: {row.errors.join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
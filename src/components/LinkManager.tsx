@@ -8,34 +8,107 @@ import {
   Trash2,
   ExternalLink,
   Calendar,
-  Shield
+  Shield,
+  MousePointer,
+  BarChart3,
+  Upload,
+  Tag,
+  Split,
+  Route,
+  QrCode
 } from 'lucide-react';
-import { Link, Campaign, Domain } from '../types';
+import { AliasAvailability, Link, Campaign, DeepLinkField, DeepLinkFields, Domain, UtmFields } from '../types';
 import { api } from '../lib/api';
+import { UTM_FIELDS, buildDestinationUrl } from '../lib/utm';
+import LinkImportWizard from './LinkImportWizard';
+import UtmBuilder from './UtmBuilder';
+import VariantEditor from './VariantEditor';
+import RuleEditor from './RuleEditor';
+import QrCodeModal from './QrCodeModal';
 
-export default function LinkManager() {
+const emptyForm = {
+  original_url: '',
+  short_code: '',
+  title: '',
+  description: '',
+  campaign_id: '',
+  domain_id: '',
+  is_cloaked: false,
+  cloak_title: '',
+  cloak_description: '',
+  password: '',
+  remove_password: false,
+  expires_at: '',
+  max_clicks: '',
+  expired_redirect_url: '',
+  tags: '',
+  utm: {} as UtmFields,
+  deep_linking: false,
+  deepLinks: {} as DeepLinkFields
+};
+
+const DEEP_LINK_INPUTS: { field: DeepLinkField; label: string; placeholder: string }[] = [
+  { field: 'ios_app_url', label: 'iOS App URL', placeholder: 'myapp://product/42 or https://...' },
+  { field: 'ios_store_url', label: 'App Store URL', placeholder: 'https://apps.apple.com/app/id...' },
+  { field: 'android_app_url', label: 'Android App URL', placeholder: 'myapp://product/42 or https://...' },
+  { field: 'android_store_url', label: 'Google Play URL', placeholder: 'https://play.google.com/store/apps/details?id=...' }
+];
+
+// Format an ISO timestamp for a datetime-local input in the user's timezone
+const toDateTimeLocal = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+interface LinkManagerProps {
+  onSelectLink?: (linkId: string) => void;
+}
+
+export default function LinkManager({ onSelectLink }: LinkManagerProps) {
   const [links, setLinks] = useState<Link[]>([]);
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [domains, setDomains] = useState<Domain[]>([]);
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [editingLink, setEditingLink] = useState<Link | null>(null);
+  const [variantLink, setVariantLink] = useState<Link | null>(null);
+  const [ruleLink, setRuleLink] = useState<Link | null>(null);
+  const [qrLink, setQrLink] = useState<Link | null>(null);
+  const [formError, setFormError] = useState('');
   const [loading, setLoading] = useState(true);
-  const [formData, setFormData] = useState({
-    original_url: '',
-    title: '',
-    description: '',
-    campaign_id: '',
-    domain_id: '',
-    is_cloaked: false,
-    cloak_title: '',
-    cloak_description: '',
-    password: '',
-    expires_at: ''
-  });
+  const [formData, setFormData] = useState(emptyForm);
+  const [aliasStatus, setAliasStatus] = useState<AliasAvailability | null>(null);
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Check the alias shortly after the user stops typing
+  useEffect(() => {
+    const alias = formData.short_code.trim();
+    if (!showForm || !alias || alias === editingLink?.short_code) {
+      setAliasStatus(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const status = await api.checkAliasAvailability(alias, formData.domain_id, editingLink?.id);
+        if (!cancelled) setAliasStatus(status);
+      } catch (error) {
+        console.error('Failed to check alias:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showForm, formData.short_code, formData.domain_id, editingLink]);
+
   const loadData = async () => {
     try {
       const [linksData, campaignsData, domainsData] = await Promise.all([
@@ -53,39 +126,122 @@ export default function LinkManager() {
     }
   };
 
+  const openCreateForm = () => {
+    setEditingLink(null);
+    setFormData(emptyForm);
+    setFormError('');
+    setShowForm(true);
+  };
+
+  const openEditForm = (link: Link) => {
+    setEditingLink(link);
+    setFormData({
+      original_url: link.original_url,
+      short_code: link.short_code,
+      title: link.title || '',
+      description: link.description || '',
+      campaign_id: link.campaign_id || '',
+      domain_id: link.domain_id || '',
+      is_cloaked: link.is_cloaked,
+      cloak_title: link.cloak_title || '',
+      cloak_description: link.cloak_description || '',
+      password: '',
+      remove_password: false,
+      expires_at: toDateTimeLocal(link.expires_at),
+      max_clicks: link.max_clicks ? String(link.max_clicks) : '',
+      expired_redirect_url: link.expired_redirect_url || '',
+      tags: link.tags || '',
+      utm: Object.fromEntries(UTM_FIELDS.map(field => [field, link[field] || ''])),
+      deep_linking: DEEP_LINK_INPUTS.some(({ field }) => link[field]),
+      deepLinks: Object.fromEntries(DEEP_LINK_INPUTS.map(({ field }) => [field, link[field] || '']))
+    });
+    setFormError('');
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingLink(null);
+    setFormError('');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const { short_code, password, remove_password, utm, deep_linking, deepLinks, ...fields } = formData;
+    const payload = {
+      ...fields,
+      ...utm,
+      // Turning deep linking off clears the app and store URLs
+      ...Object.fromEntries(DEEP_LINK_INPUTS.map(({ field }) => [field, deep_linking ? deepLinks[field] || '' : ''])),
+      // datetime-local values carry no timezone, so send the instant the user picked
+      expires_at: formData.expires_at ? new Date(formData.expires_at).toISOString() : ''
+    };
+
+    try {
+      if (editingLink) {
+        await api.updateLink(editingLink.id, {
+          ...payload,
+          is_active: editingLink.is_active,
+          ...(short_code !== editingLink.short_code && { short_code }),
+          ...(password && { password }),
+          ...(remove_password && { remove_password })
+        });
+      } else {
+        await api.createLink({ ...payload, password, ...(short_code.trim() && { custom_alias: short_code.trim() }) });
+      }
+      closeForm();
+      setFormData(emptyForm);
+      loadData();
+    } catch (error) {
+      console.error('Failed to save link:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to save link');
+    }
+  };
+
+  const handleDelete = async (link: Link) => {
+    if (!window.confirm(`Delete the link "${link.title || link.short_code}"? This cannot be undone.`)) {
+      return;
+    }
     try {
-      await api.createLink(formData);
-      setShowForm(false);
-      setFormData({
-        original_url: '',
-        title: '',
-        description: '',
-        campaign_id: '',
-        domain_id: '',
-        is_cloaked: false,
-        cloak_title: '',
-        cloak_description: '',
-        password: '',
-        expires_at: ''
-      });
+      await api.deleteLink(link.id);
       loadData();
     } catch (error) {
-      console.error('Failed to create link:', error);
+      console.error('Failed to delete link:', error);
     }
   };
 
+  const selectedCampaign = campaigns.find(c => c.id === formData.campaign_id) || null;
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
 
+  // Links on a custom domain are only served there, once the domain is verified
   const getShortUrl = (link: Link) => {
     const domain = link.domain_id && domains.find(d => d.id === link.domain_id);
     const baseUrl = domain ? `https://${domain.domain}` : window.location.origin;
     return `${baseUrl}/${link.short_code}`;
   };
 
+  const formatTimeRemaining = (expiresAt: string) => {
+    const ms = new Date(expiresAt).getTime() - Date.now();
+    if (ms <= 0) return 'Expired';
+
+    const minutes = Math.floor(ms / 60000);
+    const hours = Math.floor(minutes / 60);
+    const days = Math.floor(hours / 24);
+
+    if (days > 0) return `${days}d ${hours % 24}h left`;
+    if (hours > 0) return `${hours}h ${minutes % 60}m left`;
+    return `${Math.max(minutes, 1)}m left`;
+  };
+
+  const getClicksRemaining = (link: Link) => {
+    const maxClicks = Number(link.max_clicks);
+    if (!maxClicks) return null;
+    return Math.max(maxClicks - Number(link.click_count), 0);
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -102,21 +258,53 @@ export default function LinkManager() {
           <h1 className="text-2xl font-bold text-gray-900">Links</h1>
           <p className="text-gray-600">Manage your shortened and cloaked links</p>
         </div>
-        <button
-          onClick={() => setShowForm(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Create Link
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowImport(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import CSV
+          </button>
+          <button
+            onClick={openCreateForm}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create Link
+          </button>
+        </div>
       </div>
 
-      {/* Create Link Form */}
+      {showImport && (
+        <LinkImportWizard onClose={() => setShowImport(false)} onImported={loadData} />
+      )}
+
+      {variantLink && (
+        <VariantEditor link={variantLink} onClose={() => setVariantLink(null)} />
+      )}
+
+      {ruleLink && (
+        <RuleEditor link={ruleLink} onClose={() => setRuleLink(null)} />
+      )}
+
+      {qrLink && (
+        <QrCodeModal link={qrLink} shortUrl={getShortUrl(qrLink)} onClose={() => setQrLink(null)} />
+      )}
+
+      {/* Create / Edit Link Form */}
       {showForm && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
           <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
             <div className="mt-3">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Create New Link</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                {editingLink ? 'Edit Link' : 'Create New Link'}
+              </h3>
+              {formError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+                  {formError}
+                </div>
+              )}
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700">
@@ -132,6 +320,68 @@ export default function LinkManager() {
                   />
                 </div>
 
+                {domains.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Domain</label>
+                    <select
+                      value={formData.domain_id}
+                      onChange={(e) => setFormData({ ...formData, domain_id: e.target.value })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">{window.location.host} (default)</option>
+                      {domains.filter(d => d.is_active).map((domain) => (
+                        <option key={domain.id} value={domain.id}>
+                          {domain.domain}{domain.is_verified ? '' : ' (not verified yet)'}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {editingLink ? 'Short Code' : 'Custom Alias'}
+                  </label>
+                  <input
+                    type="text"
+                    required={Boolean(editingLink)}
+                    pattern="[A-Za-z0-9_\-]{3,50}"
+                    value={formData.short_code}
+                    onChange={(e) => setFormData({ ...formData, short_code: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                    placeholder={editingLink ? '' : 'Leave empty for a random code'}
+                  />
+                  {aliasStatus && (
+                    aliasStatus.available ? (
+                      <p className="mt-1 text-xs text-green-700">"{aliasStatus.alias}" is available</p>
+                    ) : (
+                      <div className="mt-1 text-xs text-red-700">
+                        {aliasStatus.error}
+                        {aliasStatus.suggestions.length > 0 && (
+                          <span className="ml-1">
+                            Try:
+                            {aliasStatus.suggestions.map((suggestion) => (
+                              <button
+                                key={suggestion}
+                                type="button"
+                                onClick={() => setFormData({ ...formData, short_code: suggestion })}
+                                className="ml-1 px-2 py-0.5 rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+                              >
+                                {suggestion}
+                              </button>
+                            ))}
+                          </span>
+                        )}
+                      </div>
+                    )
+                  )}
+                  {editingLink && formData.short_code !== editingLink.short_code && (
+                    <p className="mt-1 text-xs text-yellow-700">
+                      Changing the short code breaks any links already shared with the old code.
+                    </p>
+                  )}
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Title</label>
@@ -159,6 +409,61 @@ export default function LinkManager() {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">UTM Parameters</label>
+                  <UtmBuilder
+                    values={formData.utm}
+                    onChange={(utm) => setFormData({ ...formData, utm })}
+                    inherited={selectedCampaign || undefined}
+                    preview={buildDestinationUrl(
+                      {
+                        original_url: formData.original_url,
+                        id: editingLink?.id,
+                        short_code: formData.short_code.trim(),
+                        title: formData.title,
+                        ...formData.utm
+                      },
+                      selectedCampaign
+                    )}
+                  />
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="deep_linking"
+                    checked={formData.deep_linking}
+                    onChange={(e) => setFormData({ ...formData, deep_linking: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="deep_linking" className="ml-2 block text-sm text-gray-900">
+                    Open in mobile app
+                  </label>
+                </div>
+
+                {formData.deep_linking && (
+                  <div className="p-4 bg-gray-50 rounded-md space-y-3">
+                    <p className="text-xs text-gray-500">
+                      iOS and Android visitors are sent to the app, or to the store if it isn't installed.
+                      Desktop visitors go to the destination URL. Leave a platform empty to send it to the web too.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {DEEP_LINK_INPUTS.map(({ field, label, placeholder }) => (
+                        <div key={field}>
+                          <label className="block text-sm font-medium text-gray-700">{label}</label>
+                          <input
+                            type="text"
+                            value={formData.deepLinks[field] || ''}
+                            onChange={(e) => setFormData({ ...formData, deepLinks: { ...formData.deepLinks, [field]: e.target.value } })}
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                            placeholder={placeholder}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Description</label>
                   <textarea
@@ -212,9 +517,24 @@ export default function LinkManager() {
                       type="password"
                       value={formData.password}
                       onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                      disabled={formData.remove_password}
                       className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Optional password"
+                      placeholder={editingLink?.password_hash ? 'Leave blank to keep current password' : 'Optional password'}
                     />
+                    {editingLink?.password_hash && (
+                      <div className="mt-2 flex items-center">
+                        <input
+                          type="checkbox"
+                          id="remove_password"
+                          checked={formData.remove_password}
+                          onChange={(e) => setFormData({ ...formData, remove_password: e.target.checked, password: '' })}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <label htmlFor="remove_password" className="ml-2 block text-sm text-gray-900">
+                          Remove password protection
+                        </label>
+                      </div>
+                    )}
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Expires At</label>
@@ -227,10 +547,45 @@ export default function LinkManager() {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Max Clicks</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={formData.max_clicks}
+                      onChange={(e) => setFormData({ ...formData, max_clicks: e.target.value })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Unlimited"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Expired Link Fallback URL</label>
+                    <input
+                      type="url"
+                      value={formData.expired_redirect_url}
+                      onChange={(e) => setFormData({ ...formData, expired_redirect_url: e.target.value })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="https://example.com/offer-ended"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Tags</label>
+                  <input
+                    type="text"
+                    value={formData.tags}
+                    onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="newsletter, q1"
+                  />
+                </div>
+
                 <div className="flex justify-end space-x-3 pt-4">
                   <button
                     type="button"
-                    onClick={() => setShowForm(false)}
+                    onClick={closeForm}
                     className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
                   >
                     Cancel
@@ -239,7 +594,7 @@ export default function LinkManager() {
                     type="submit"
                     className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
                   >
-                    Create Link
+                    {editingLink ? 'Save Changes' : 'Create Link'}
                   </button>
                 </div>
               </form>
@@ -259,7 +614,10 @@ export default function LinkManager() {
               <div className="flex items-center justify-between">
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center space-x-3">
-                    <h4 className="text-sm font-medium text-gray-900 truncate">
+                    <h4
+                      onClick={() => onSelectLink?.(link.id)}
+                      className={`text-sm font-medium text-gray-900 truncate ${onSelectLink ? 'cursor-pointer hover:text-blue-600' : ''}`}
+                    >
                       {link.title || link.original_url}
                     </h4>
                     {link.is_cloaked && (
@@ -277,7 +635,13 @@ export default function LinkManager() {
                     {link.expires_at && (
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
                         <Calendar className="w-3 h-3 mr-1" />
-                        Expires
+                        {formatTimeRemaining(link.expires_at)}
+                      </span>
+                    )}
+                    {getClicksRemaining(link) !== null && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                        <MousePointer className="w-3 h-3 mr-1" />
+                        {getClicksRemaining(link) === 0 ? 'Click limit reached' : `${getClicksRemaining(link)} clicks left`}
                       </span>
                     )}
                   </div>
@@ -293,22 +657,68 @@ export default function LinkManager() {
                     </button>
                   </div>
                   <p className="mt-1 text-sm text-gray-500 truncate">{link.original_url}</p>
+                  {link.tags && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {link.tags.split(',').map((tag) => (
+                        <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                          <Tag className="w-3 h-3 mr-1" />
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div className="flex items-center space-x-4">
                   <div className="text-sm text-gray-500">
                     <span className="font-medium">{link.click_count}</span> clicks
                   </div>
                   <div className="flex items-center space-x-2">
+                    {onSelectLink && (
+                      <button
+                        onClick={() => onSelectLink(link.id)}
+                        className="text-gray-400 hover:text-gray-600"
+                        title="View analytics"
+                      >
+                        <BarChart3 className="h-4 w-4" />
+                      </button>
+                    )}
                     <button
                       onClick={() => window.open(getShortUrl(link), '_blank')}
                       className="text-gray-400 hover:text-gray-600"
                     >
                       <ExternalLink className="h-4 w-4" />
                     </button>
-                    <button className="text-gray-400 hover:text-gray-600">
+                    <button
+                      onClick={() => setQrLink(link)}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="QR code"
+                    >
+                      <QrCode className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setVariantLink(link)}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="A/B test destinations"
+                    >
+                      <Split className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setRuleLink(link)}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Targeting rules"
+                    >
+                      <Route className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => openEditForm(link)}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
                       <Edit className="h-4 w-4" />
                     </button>
-                    <button className="text-gray-400 hover:text-red-600">
+                    <button
+                      onClick={() => handleDelete(link)}
+                      className="text-gray-400 hover:text-red-600"
+                    >
                       <Trash2 className="h-4 w-4" />
                     </button>
                   </div>
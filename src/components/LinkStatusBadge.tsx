@@ -0,0 +1,15 @@
+import { LinkStats } from '../types';
+
+const STATUS_STYLES: Record<LinkStats['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  inactive: 'bg-gray-100 text-gray-800',
+  expired: 'bg-red-100 text-red-800'
+};
+
+export default function LinkStatusBadge({ status }: { status: LinkStats['status'] }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[status]}`}>
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,33 @@
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+import { MetricComparison } from '../types';
+
+interface MetricDeltaProps {
+  metric?: MetricComparison;
+  label?: string;
+}
+
+// Change against the previous period; renders nothing when there is no baseline to compare with
+export default function MetricDelta({ metric, label = 'from last period' }: MetricDeltaProps) {
+  if (!metric || metric.change === null) {
+    return null;
+  }
+
+  if (metric.change === 0) {
+    return (
+      <p className="flex items-center text-sm text-gray-500">
+        <Minus className="h-4 w-4 mr-1" />
+        No change {label}
+      </p>
+    );
+  }
+
+  const isUp = metric.change > 0;
+  const Icon = isUp ? ArrowUpRight : ArrowDownRight;
+
+  return (
+    <p className={`flex items-center text-sm ${isUp ? 'text-green-600' : 'text-red-600'}`}>
+      <Icon className="h-4 w-4 mr-1" />
+      {isUp ? '+' : ''}{metric.change}% {label}
+    </p>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { Link, QrCodeErrorCorrection, QrCodeFormat, QrCodeOptions } from '../types';
+import { api } from '../lib/api';
+
+interface QrCodeModalProps {
+  link: Link;
+  shortUrl: string;
+  onClose: () => void;
+}
+
+const ERROR_CORRECTION_LEVELS: Array<{ value: QrCodeErrorCorrection; label: string }> = [
+  { value: 'L', label: 'Low (7%)' },
+  { value: 'M', label: 'Medium (15%)' },
+  { value: 'Q', label: 'Quartile (25%)' },
+  { value: 'H', label: 'High (30%)' },
+];
+
+const DEFAULT_OPTIONS: QrCodeOptions = {
+  format: 'svg',
+  size: 512,
+  margin: 4,
+  level: 'M',
+  fg: '#000000',
+  bg: '#ffffff',
+  logo_url: '',
+};
+
+// The admin CSP only allows data: images, so the preview can't use an object URL
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// QR code for a link's short URL. Scans are tagged src=qr so they show up as
+// their own source in the link's analytics.
+export default function QrCodeModal({ link, shortUrl, onClose }: QrCodeModalProps) {
+  const [options, setOptions] = useState<QrCodeOptions>(DEFAULT_OPTIONS);
+  // Options of the code being previewed; the form only applies on Update
+  const [applied, setApplied] = useState<QrCodeOptions>(DEFAULT_OPTIONS);
+  const [qrCode, setQrCode] = useState<Blob | null>(null);
+  const [preview, setPreview] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    const generate = async () => {
+      setLoading(true);
+      setFormError('');
+      try {
+        const blob = await api.getQrCode(link.id, applied);
+        setQrCode(blob);
+        setPreview(await readAsDataUrl(blob));
+      } catch (error) {
+        console.error('Failed to generate QR code:', error);
+        setFormError(error instanceof Error ? error.message : 'Failed to generate QR code');
+      } finally {
+        setLoading(false);
+      }
+    };
+    generate();
+  }, [link.id, applied]);
+
+  const updateOptions = (changes: Partial<QrCodeOptions>) => {
+    setOptions({ ...options, ...changes });
+  };
+
+  const handleLogoChange = (logo_url: string) => {
+    // A logo hides part of the code, so switch to the highest error correction with it
+    updateOptions({ logo_url, level: logo_url ? 'H' : options.level === 'H' ? 'M' : options.level });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setApplied({ ...options });
+  };
+
+  const handleDownload = () => {
+    if (!qrCode) return;
+    const objectUrl = URL.createObjectURL(qrCode);
+    const anchor = document.createElement('a');
+    anchor.href = objectUrl;
+    anchor.download = `${link.short_code}-qr.${qrCode.type === 'image/png' ? 'png' : 'svg'}`;
+    anchor.click();
+    URL.revokeObjectURL(objectUrl);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">QR Code: /{link.short_code}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          {formError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {formError}
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-gray-500">
+                Encodes <span className="font-mono">{shortUrl}?src=qr</span>, so scans are reported as the "qr" source.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Format</label>
+                  <select
+                    value={options.format}
+                    onChange={(e) => updateOptions({ format: e.target.value as QrCodeFormat })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  >
+                    <option value="svg">SVG (print)</option>
+                    <option value="png">PNG</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Error correction</label>
+                  <select
+                    value={options.level}
+                    onChange={(e) => updateOptions({ level: e.target.value as QrCodeErrorCorrection })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  >
+                    {ERROR_CORRECTION_LEVELS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Size (px)</label>
+                  <input
+                    type="number"
+                    min={64}
+                    max={2048}
+                    value={options.size}
+                    onChange={(e) => updateOptions({ size: parseInt(e.target.value) || 0 })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Margin (modules)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={16}
+                    value={options.margin}
+                    onChange={(e) => updateOptions({ margin: parseInt(e.target.value) || 0 })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Foreground</label>
+                  <input
+                    type="color"
+                    value={options.fg}
+                    onChange={(e) => updateOptions({ fg: e.target.value })}
+                    className="mt-1 block w-full h-9 border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Background</label>
+                  <input
+                    type="color"
+                    value={options.bg}
+                    onChange={(e) => updateOptions({ bg: e.target.value })}
+                    className="mt-1 block w-full h-9 border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Center logo URL</label>
+                <input
+                  type="url"
+                  value={options.logo_url}
+                  onChange={(e) => handleLogoChange(e.target.value)}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  placeholder="https://example.com/logo.png"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Optional https image, up to 512 KB. PNG codes need a PNG logo.
+                </p>
+              </div>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Generating...' : 'Update Preview'}
+              </button>
+            </form>
+
+            <div className="flex flex-col items-center justify-center space-y-4">
+              <div className="flex items-center justify-center w-64 h-64 border border-gray-200 rounded-md bg-gray-50">
+                {preview ? (
+                  <img src={preview} alt={`QR code for /${link.short_code}`} className="max-w-full max-h-full" />
+                ) : (
+                  <p className="text-sm text-gray-500">{loading ? 'Generating...' : 'No preview'}</p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={handleDownload}
+                disabled={!qrCode || loading}
+                className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, CheckCircle, Plus, Trash2, X, XCircle } from 'lucide-react';
+import { Link, RuleMatchType, RuleSimulation, RuleSimulationRequest, TargetingRuleInput } from '../types';
+import { api } from '../lib/api';
+
+interface RuleEditorProps {
+  link: Link;
+  onClose: () => void;
+}
+
+const MAX_RULES = 20;
+
+const MATCH_TYPES: { value: RuleMatchType; label: string; placeholder: string }[] = [
+  { value: 'device', label: 'Device', placeholder: 'mobile, tablet' },
+  { value: 'os', label: 'Operating system', placeholder: 'iOS, Android' },
+  { value: 'country', label: 'Country', placeholder: 'DE, AT, CH' },
+  { value: 'language', label: 'Language', placeholder: 'fr, pt-br' },
+  { value: 'day', label: 'Day of week', placeholder: 'weekend, or mon, tue' },
+  { value: 'time', label: 'Time of day', placeholder: '09:00-17:00' }
+];
+
+const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const inputClass = 'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+// Ordered targeting rules for a link, with a simulator that shows where a
+// given request would be sent before the rules are saved.
+export default function RuleEditor({ link, onClose }: RuleEditorProps) {
+  const [rules, setRules] = useState<TargetingRuleInput[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState('');
+  const [testRequest, setTestRequest] = useState<RuleSimulationRequest>({
+    user_agent: navigator.userAgent,
+    accept_language: navigator.languages.join(','),
+    country: '',
+    at: ''
+  });
+  const [simulation, setSimulation] = useState<RuleSimulation | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const existing = await api.getLinkRules(link.id);
+        setRules(existing.map(({ id, label, match_type, match_values, timezone, destination_url }) => (
+          { id, label, match_type, match_values, timezone, destination_url }
+        )));
+      } catch (error) {
+        console.error('Failed to load rules:', error);
+        setFormError(error instanceof Error ? error.message : 'Failed to load rules');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadRules();
+  }, [link.id]);
+
+  const updateRule = (index: number, changes: Partial<TargetingRuleInput>) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+    setSimulation(null);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const reordered = [...rules];
+    const [rule] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, rule);
+    setRules(reordered);
+    setSimulation(null);
+  };
+
+  const removeRule = (index: number) => {
+    setRules(rules.filter((_, i) => i !== index));
+    setSimulation(null);
+  };
+
+  const addRule = () => {
+    setRules([...rules, { label: '', match_type: 'device', match_values: '', timezone: localTimeZone, destination_url: '' }]);
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setFormError('');
+    try {
+      // datetime-local values are in the browser's time zone
+      const at = testRequest.at ? new Date(testRequest.at).toISOString() : undefined;
+      setSimulation(await api.simulateLinkRules(link.id, rules, { ...testRequest, at }));
+    } catch (error) {
+      console.error('Failed to test rules:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to test rules');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError('');
+    try {
+      await api.updateLinkRules(link.id, rules);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save rules:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to save rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Targeting Rules: /{link.short_code}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          {formError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {formError}
+            </div>
+          )}
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading rules...</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-gray-500">
+                Rules are tried from top to bottom and the first match decides the destination.
+                Visitors who match none go to {link.original_url}.
+              </p>
+
+              {rules.map((rule, index) => {
+                const matchType = MATCH_TYPES.find(type => type.value === rule.match_type);
+                const usesTimeZone = rule.match_type === 'day' || rule.match_type === 'time';
+                return (
+                  <div key={rule.id || `new-${index}`} className="p-3 border border-gray-200 rounded-md space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-700">Rule {index + 1}</span>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => moveRule(index, -1)}
+                          disabled={index === 0}
+                          className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                          title="Move up"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveRule(index, 1)}
+                          disabled={index === rules.length - 1}
+                          className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                          title="Move down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeRule(index)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Remove rule"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-12 gap-2">
+                      <div className="col-span-4">
+                        <label className="block text-xs font-medium text-gray-700">When</label>
+                        <select
+                          value={rule.match_type}
+                          onChange={(e) => updateRule(index, { match_type: e.target.value as RuleMatchType })}
+                          className={inputClass}
+                        >
+                          {MATCH_TYPES.map(type => (
+                            <option key={type.value} value={type.value}>{type.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className={usesTimeZone ? 'col-span-4' : 'col-span-8'}>
+                        <label className="block text-xs font-medium text-gray-700">Is any of</label>
+                        <input
+                          type="text"
+                          required
+                          value={rule.match_values}
+                          onChange={(e) => updateRule(index, { match_values: e.target.value })}
+                          className={inputClass}
+                          placeholder={matchType?.placeholder}
+                        />
+                      </div>
+                      {usesTimeZone && (
+                        <div className="col-span-4">
+                          <label className="block text-xs font-medium text-gray-700">Time zone</label>
+                          <input
+                            type="text"
+                            value={rule.timezone}
+                            onChange={(e) => updateRule(index, { timezone: e.target.value })}
+                            className={inputClass}
+                            placeholder="UTC"
+                          />
+                        </div>
+                      )}
+                      <div className="col-span-8">
+                        <label className="block text-xs font-medium text-gray-700">Send to</label>
+                        <input
+                          type="url"
+                          required
+                          value={rule.destination_url}
+                          onChange={(e) => updateRule(index, { destination_url: e.target.value })}
+                          className={inputClass}
+                          placeholder="https://apps.apple.com/app/..."
+                        />
+                      </div>
+                      <div className="col-span-4">
+                        <label className="block text-xs font-medium text-gray-700">Label</label>
+                        <input
+                          type="text"
+                          value={rule.label}
+                          onChange={(e) => updateRule(index, { label: e.target.value })}
+                          className={inputClass}
+                          placeholder="Optional"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {rules.length < MAX_RULES && (
+                <button
+                  type="button"
+                  onClick={addRule}
+                  className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add rule
+                </button>
+              )}
+
+              {/* Simulator */}
+              <div className="pt-4 border-t border-gray-200 space-y-3">
+                <h4 className="text-sm font-medium text-gray-900">Test a request</h4>
+                <p className="text-xs text-gray-500">
+                  Pre-filled with your browser's details. Leave country empty to use the one detected from your IP,
+                  and time empty to use the current time. Unsaved rules are tested as shown above.
+                </p>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">User agent</label>
+                  <input
+                    type="text"
+                    value={testRequest.user_agent}
+                    onChange={(e) => setTestRequest({ ...testRequest, user_agent: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700">Accept-Language</label>
+                    <input
+                      type="text"
+                      value={testRequest.accept_language}
+                      onChange={(e) => setTestRequest({ ...testRequest, accept_language: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700">Country</label>
+                    <input
+                      type="text"
+                      maxLength={2}
+                      value={testRequest.country}
+                      onChange={(e) => setTestRequest({ ...testRequest, country: e.target.value.toUpperCase() })}
+                      className={inputClass}
+                      placeholder="Detect"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700">Time</label>
+                    <input
+                      type="datetime-local"
+                      value={testRequest.at}
+                      onChange={(e) => setTestRequest({ ...testRequest, at: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleTest}
+                  disabled={testing}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {testing ? 'Testing...' : 'Test this request'}
+                </button>
+
+                {simulation && (
+                  <div className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm space-y-2">
+                    <p className="text-gray-600">
+                      Seen as {simulation.context.device} / {simulation.context.os || 'unknown OS'}, country{' '}
+                      {simulation.context.country || 'unknown'}, language {simulation.context.language || 'none'}
+                    </p>
+                    <ul className="space-y-1">
+                      {simulation.results.map(result => (
+                        <li key={result.position} className="flex items-center">
+                          {result.matched
+                            ? <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+                            : <XCircle className="h-4 w-4 text-gray-400 mr-2" />}
+                          <span className={result.position === simulation.matchedPosition ? 'font-medium text-gray-900' : 'text-gray-600'}>
+                            Rule {result.position}: {result.label}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-gray-900 break-all">
+                      Destination: <span className="font-medium">{simulation.destination}</span>
+                      {simulation.matchedPosition === null && simulation.abTest && ' (or an A/B variant)'}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Rules'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
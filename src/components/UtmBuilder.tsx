@@ -0,0 +1,58 @@
+import { UtmField, UtmFields } from '../types';
+import { UTM_FIELDS, UTM_PLACEHOLDERS } from '../lib/utm';
+
+const FIELD_LABELS: Record<UtmField, string> = {
+  utm_source: 'Source',
+  utm_medium: 'Medium',
+  utm_campaign: 'Campaign',
+  utm_term: 'Term',
+  utm_content: 'Content'
+};
+
+const FIELD_EXAMPLES: Record<UtmField, string> = {
+  utm_source: 'newsletter',
+  utm_medium: 'email',
+  utm_campaign: '{campaign_name}',
+  utm_term: '',
+  utm_content: '{short_code}'
+};
+
+interface UtmBuilderProps {
+  values: UtmFields;
+  onChange: (values: UtmFields) => void;
+  // Campaign template values shown as placeholders for fields the link doesn't override
+  inherited?: UtmFields;
+  // Final destination URL, shown as a live preview
+  preview?: string;
+}
+
+export default function UtmBuilder({ values, onChange, inherited, preview }: UtmBuilderProps) {
+  return (
+    <div className="p-4 bg-gray-50 rounded-md space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {UTM_FIELDS.map((field) => (
+          <div key={field}>
+            <label className="block text-xs font-medium text-gray-700">{FIELD_LABELS[field]}</label>
+            <input
+              type="text"
+              value={values[field] || ''}
+              onChange={(e) => onChange({ ...values, [field]: e.target.value })}
+              className="mt-1 block w-full text-sm border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              placeholder={inherited ? inherited[field] || '' : FIELD_EXAMPLES[field]}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Placeholders: {UTM_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}
+        {inherited && '. Empty fields use the campaign template.'}
+      </p>
+      {preview !== undefined && (
+        <div>
+          <p className="text-xs font-medium text-gray-700">Final URL</p>
+          <p className="mt-1 text-xs text-gray-900 font-mono break-all">{preview || '—'}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Link, LinkVariantInput } from '../types';
+import { api } from '../lib/api';
+
+interface VariantEditorProps {
+  link: Link;
+  onClose: () => void;
+}
+
+const MAX_VARIANTS = 10;
+
+// Weighted A/B destinations for a link. Visitors keep the variant they were
+// first sent to; with no variants (or all paused) the link's URL is used.
+export default function VariantEditor({ link, onClose }: VariantEditorProps) {
+  const [variants, setVariants] = useState<LinkVariantInput[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    const loadVariants = async () => {
+      try {
+        const existing = await api.getLinkVariants(link.id);
+        setVariants(existing.map(({ id, label, url, weight }) => ({ id, label, url, weight })));
+      } catch (error) {
+        console.error('Failed to load variants:', error);
+        setFormError(error instanceof Error ? error.message : 'Failed to load variants');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadVariants();
+  }, [link.id]);
+
+  const updateVariant = (index: number, changes: Partial<LinkVariantInput>) => {
+    setVariants(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const addVariant = () => {
+    // Start a new test with the link's current destination as the control
+    const first = variants.length === 0 ? [{ label: 'Original', url: link.original_url, weight: 1 }] : [];
+    setVariants([...variants, ...first, { label: '', url: '', weight: 1 }]);
+  };
+
+  const totalWeight = variants.reduce((sum, variant) => sum + (variant.weight > 0 ? variant.weight : 0), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError('');
+    try {
+      await api.updateLinkVariants(link.id, variants);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save variants:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to save variants');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">A/B Test: /{link.short_code}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          {formError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {formError}
+            </div>
+          )}
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading variants...</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-gray-500">
+                Each visitor is sent to one variant, chosen by weight, and keeps it on later visits.
+                Set a weight to 0 to pause a variant.
+              </p>
+
+              {variants.map((variant, index) => (
+                <div key={variant.id || `new-${index}`} className="grid grid-cols-12 gap-2 items-end">
+                  <div className="col-span-3">
+                    <label className="block text-xs font-medium text-gray-700">Label</label>
+                    <input
+                      type="text"
+                      value={variant.label}
+                      onChange={(e) => updateVariant(index, { label: e.target.value })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                      placeholder={`Variant ${String.fromCharCode(65 + index)}`}
+                    />
+                  </div>
+                  <div className="col-span-6">
+                    <label className="block text-xs font-medium text-gray-700">Destination URL</label>
+                    <input
+                      type="url"
+                      required
+                      value={variant.url}
+                      onChange={(e) => updateVariant(index, { url: e.target.value })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                      placeholder="https://example.com/landing-b"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-medium text-gray-700">
+                      Weight{totalWeight > 0 && variant.weight > 0 && ` (${Math.round((variant.weight / totalWeight) * 100)}%)`}
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={1000}
+                      value={variant.weight}
+                      onChange={(e) => updateVariant(index, { weight: parseInt(e.target.value) || 0 })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    />
+                  </div>
+                  <div className="col-span-1 pb-2">
+                    <button
+                      type="button"
+                      onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove variant"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {variants.length === 0 && (
+                <p className="text-sm text-gray-500">No variants. Every visitor goes to {link.original_url}.</p>
+              )}
+
+              {variants.length < MAX_VARIANTS && (
+                <button
+                  type="button"
+                  onClick={addVariant}
+                  className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add variant
+                </button>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Variants'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
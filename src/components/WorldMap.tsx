@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useState } from 'react';
+import { geoNaturalEarth1, geoPath } from 'd3-geo';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import { numericToAlpha2 } from 'i18n-iso-countries';
+import atlasUrl from 'world-atlas/countries-110m.json?url';
+import { BreakdownItem } from '../types';
+import { countryName } from '../lib/countries';
+
+const WIDTH = 960;
+const HEIGHT = 480;
+
+type CountryFeature = Feature<Geometry, { name: string }>;
+
+interface WorldMapProps {
+  // Clicks per ISO alpha-2 country code
+  countries: BreakdownItem[];
+}
+
+// Choropleth of clicks per country. The atlas is fetched as a static asset the
+// first time a map is shown, so it stays out of the main bundle.
+export default function WorldMap({ countries }: WorldMapProps) {
+  const [shapes, setShapes] = useState<CountryFeature[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadAtlas = async () => {
+      try {
+        const response = await fetch(atlasUrl);
+        const topology = (await response.json()) as Topology<{ countries: GeometryCollection<{ name: string }> }>;
+        const collection = feature(topology, topology.objects.countries) as FeatureCollection<Geometry, { name: string }>;
+        if (!cancelled) setShapes(collection.features);
+      } catch (error) {
+        console.error('Failed to load world map:', error);
+      }
+    };
+    loadAtlas();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const path = useMemo(() => {
+    if (!shapes) return null;
+    const projection = geoNaturalEarth1().fitSize([WIDTH, HEIGHT], { type: 'FeatureCollection', features: shapes });
+    return geoPath(projection);
+  }, [shapes]);
+
+  const clicksByCountry = new Map(countries.map(country => [country.name, country.clicks]));
+  const maxClicks = Math.max(1, ...countries.map(country => country.clicks));
+
+  if (!shapes || !path) {
+    return <div className="h-64 flex items-center justify-center text-sm text-gray-500">Loading map...</div>;
+  }
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {shapes.map((shape, index) => {
+          // The atlas identifies countries by ISO numeric code; a few disputed areas have none
+          const code = shape.id !== undefined ? numericToAlpha2(shape.id) : undefined;
+          const clicks = (code && clicksByCountry.get(code)) || 0;
+          return (
+            <path
+              key={shape.id ?? `shape-${index}`}
+              d={path(shape) || ''}
+              fill={clicks > 0 ? `rgba(59, 130, 246, ${0.2 + 0.8 * (clicks / maxClicks)})` : '#E5E7EB'}
+              stroke="#FFFFFF"
+              strokeWidth={0.5}
+            >
+              <title>{`${code ? countryName(code) : shape.properties.name}: ${clicks} clicks`}</title>
+            </path>
+          );
+        })}
+      </svg>
+      <div className="mt-2 flex items-center justify-end space-x-2 text-xs text-gray-500">
+        <span>0</span>
+        <div className="h-2 w-32 rounded" style={{ background: 'linear-gradient(to right, rgba(59, 130, 246, 0.2), rgb(59, 130, 246))' }} />
+        <span>{maxClicks}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { AnalyticsQuery, Granularity } from '../types';
+
+const PRESET_DAYS: Record<string, number> = {
+  '7days': 7,
+  '30days': 30,
+  '90days': 90,
+  '1year': 365
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar date in the YYYY-MM-DD form used by date inputs and the API
+export const toDateInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+};
+
+export const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - (days - 1));
+  return toDateInput(date);
+};
+
+// Daily points up to a month, weekly up to half a year, monthly beyond that,
+// so a chart never has more than a few dozen points or exceeds the server's bucket limit
+const autoGranularity = (from: string, to: string): Granularity => {
+  const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+  if (days <= 31) return 'day';
+  if (days <= 180) return 'week';
+  return 'month';
+};
+
+// Query for a preset range (7days, 30days, 90days, 1year) or a custom from/to pair.
+// Returns null while a custom range is incomplete or inverted.
+export const buildQuery = (
+  dateRange: string,
+  customFrom: string,
+  customTo: string,
+  granularity: Granularity | 'auto',
+  { includeBots = false }: { includeBots?: boolean } = {}
+): AnalyticsQuery | null => {
+  const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const isCustom = dateRange === 'custom';
+
+  if (isCustom && (!customFrom || !customTo || customFrom > customTo)) {
+    return null;
+  }
+
+  const from = isCustom ? customFrom : daysAgo(PRESET_DAYS[dateRange]);
+  const to = isCustom ? customTo : toDateInput(new Date());
+  return {
+    from,
+    to,
+    granularity: granularity === 'auto' ? autoGranularity(from, to) : granularity,
+    tz,
+    ...(includeBots && { include_bots: 'true' as const })
+  };
+};
@@ -1,3 +1,5 @@
+import { AliasAvailability, AnalyticsQuery, DomainSettings, ExportFormat, ExportReport, ImportMapping, ImportResult, LinkVariant, LinkVariantInput, QrCodeOptions, RuleSimulation, RuleSimulationRequest, TargetingRule, TargetingRuleInput } from '../types';
+
 const API_BASE_URL = import.meta.env.DEV ? '' : '';
 
 class ApiClient {
@@ -11,8 +13,9 @@ class ApiClient {
 
   private async request(endpoint: string, options: RequestInit = {}) {
     const url = `${this.baseURL}/api${endpoint}`;
+    // Let the browser set the multipart boundary for file uploads
     const headers = {
-      'Content-Type': 'application/json',
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
       ...options.headers,
     };
 
@@ -82,6 +85,93 @@ class ApiClient {
     });
   }
 
+  async checkAliasAvailability(alias: string, domainId?: string, excludeId?: string): Promise<AliasAvailability> {
+    const params = new URLSearchParams({ alias });
+    if (domainId) params.set('domain_id', domainId);
+    if (excludeId) params.set('exclude_id', excludeId);
+    return this.request(`/links/alias-availability?${params}`);
+  }
+
+  async importLinks(file: File, options: { mapping?: ImportMapping; dryRun?: boolean } = {}): Promise<ImportResult> {
+    const body = new FormData();
+    body.append('file', file);
+    if (options.mapping) body.append('mapping', JSON.stringify(options.mapping));
+    if (options.dryRun) body.append('dry_run', 'true');
+    return this.request('/links/import', {
+      method: 'POST',
+      body,
+    });
+  }
+
+  async updateLink(id: string, linkData: Record<string, unknown>) {
+    return this.request(`/links/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(linkData),
+    });
+  }
+
+  async patchLink(id: string, linkData: Record<string, unknown>) {
+    return this.request(`/links/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(linkData),
+    });
+  }
+
+  async deleteLink(id: string) {
+    return this.request(`/links/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getLinkVariants(id: string): Promise<LinkVariant[]> {
+    return this.request(`/links/${id}/variants`);
+  }
+
+  // Replaces all of the link's variants; an empty list turns A/B testing off
+  async updateLinkVariants(id: string, variants: LinkVariantInput[]): Promise<LinkVariant[]> {
+    return this.request(`/links/${id}/variants`, {
+      method: 'PUT',
+      body: JSON.stringify({ variants }),
+    });
+  }
+
+  async getLinkRules(id: string): Promise<TargetingRule[]> {
+    return this.request(`/links/${id}/rules`);
+  }
+
+  // Replaces all of the link's rules, in evaluation order
+  async updateLinkRules(id: string, rules: TargetingRuleInput[]): Promise<TargetingRule[]> {
+    return this.request(`/links/${id}/rules`, {
+      method: 'PUT',
+      body: JSON.stringify({ rules }),
+    });
+  }
+
+  // Where a request would go under the given (possibly unsaved) rules; nothing is recorded
+  async simulateLinkRules(id: string, rules: TargetingRuleInput[], request: RuleSimulationRequest): Promise<RuleSimulation> {
+    return this.request(`/links/${id}/rules/simulate`, {
+      method: 'POST',
+      body: JSON.stringify({ ...request, rules }),
+    });
+  }
+
+  // Returned as a Blob rather than parsed, since the body is an image
+  async getQrCode(id: string, options: QrCodeOptions = {}): Promise<Blob> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const response = await fetch(`${this.baseURL}/api/links/${id}/qr?${params}`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to generate QR code' }));
+      throw new Error(error.error || 'Failed to generate QR code');
+    }
+    return response.blob();
+  }
+
   // Campaigns methods
   async getCampaigns() {
     return this.request('/campaigns');
@@ -94,6 +184,31 @@ class ApiClient {
     });
   }
 
+  async updateCampaign(id: string, campaignData: Record<string, unknown>) {
+    return this.request(`/campaigns/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(campaignData),
+    });
+  }
+
+  async deleteCampaign(id: string) {
+    return this.request(`/campaigns/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async archiveCampaign(id: string) {
+    return this.request(`/campaigns/${id}/archive`, {
+      method: 'POST',
+    });
+  }
+
+  async unarchiveCampaign(id: string) {
+    return this.request(`/campaigns/${id}/unarchive`, {
+      method: 'POST',
+    });
+  }
+
   // Domains methods
   async getDomains() {
     return this.request('/domains');
@@ -105,10 +220,68 @@ class ApiClient {
       body: JSON.stringify(domainData),
     });
   }
+  async verifyDomain(id: string) {
+    return this.request(`/domains/${id}/verify`, {
+      method: 'POST',
+    });
+  }
+
+  async updateDomain(id: string, settings: DomainSettings) {
+    return this.request(`/domains/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  // Conversion methods
+  async getPostbackSecret(): Promise<{ postback_secret: string }> {
+    return this.request('/conversions/secret');
+  }
+
+  async regeneratePostbackSecret(): Promise<{ postback_secret: string }> {
+    return this.request('/conversions/secret', {
+      method: 'POST',
+    });
+  }
 
   // Analytics methods
-  async getAnalytics() {
-    return this.request('/analytics');
+  async getAnalytics(query: AnalyticsQuery = {}) {
+    return this.request(`/analytics${this.queryString(query)}`);
+  }
+
+  async getLinkAnalytics(id: string, query: AnalyticsQuery = {}) {
+    return this.request(`/links/${id}/analytics${this.queryString(query)}`);
+  }
+
+  // Fetches an export and saves it under the filename chosen by the server
+  async downloadExport(report: ExportReport, format: ExportFormat, query: AnalyticsQuery = {}) {
+    const url = `${this.baseURL}/api/analytics/export/${report}${this.queryString({ ...query, format })}`;
+    const response = await fetch(url, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Export failed' }));
+      throw new Error(error.error || 'Export failed');
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${report}.${format}`;
+    const objectUrl = URL.createObjectURL(await response.blob());
+    const anchor = document.createElement('a');
+    anchor.href = objectUrl;
+    anchor.download = filename;
+    anchor.click();
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  private queryString(query: AnalyticsQuery & { format?: ExportFormat }) {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value) params.set(key, value);
+    }
+    const search = params.toString();
+    return search ? `?${search}` : '';
   }
 }
 
@@ -0,0 +1,11 @@
+// Clicks store ISO 3166 alpha-2 country codes; the browser knows their names
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+export const countryName = (code: string) => {
+  try {
+    return regionNames.of(code) || code;
+  } catch {
+    // Not a region code, e.g. the "Unknown" bucket
+    return code;
+  }
+};
@@ -0,0 +1,16 @@
+import { Revenue } from '../types';
+
+// "€19.99 + $3.00"; revenue is kept per currency, so amounts are never converted
+export const formatRevenue = (revenue: Revenue | undefined) => {
+  const entries = Object.entries(revenue || {});
+  if (entries.length === 0) return '—';
+  return entries
+    .map(([currency, amount]) => {
+      try {
+        return new Intl.NumberFormat('en', { style: 'currency', currency }).format(amount);
+      } catch {
+        return `${amount.toFixed(2)} ${currency}`;
+      }
+    })
+    .join(' + ');
+};
@@ -0,0 +1,55 @@
+import { UtmField, UtmFields } from '../types';
+
+export const UTM_FIELDS: UtmField[] = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+export const UTM_PLACEHOLDERS = ['campaign_name', 'campaign_id', 'short_code', 'link_id', 'link_title'];
+
+interface UtmLink extends UtmFields {
+  original_url: string;
+  id?: string;
+  short_code?: string;
+  title?: string;
+}
+
+interface UtmCampaign extends UtmFields {
+  id: string;
+  name: string;
+}
+
+// Mirrors the server's merge at redirect time so forms can preview the final URL.
+// Placeholders without a value yet, like {short_code} before a code is generated, stay as typed.
+export const buildDestinationUrl = (link: UtmLink, campaign?: UtmCampaign | null) => {
+  let url: URL;
+  try {
+    url = new URL(link.original_url);
+  } catch {
+    return link.original_url;
+  }
+
+  const values: Record<string, string> = {
+    campaign_name: campaign?.name || '',
+    campaign_id: campaign?.id || '',
+    ...(link.short_code && { short_code: link.short_code }),
+    ...(link.id && { link_id: link.id }),
+    link_title: link.title || ''
+  };
+  const expand = (template: string) =>
+    template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? values[name] : match));
+
+  let changed = false;
+  for (const field of UTM_FIELDS) {
+    const override = link[field];
+    const template = campaign?.[field];
+    if (override) {
+      url.searchParams.set(field, expand(override));
+      changed = true;
+    } else if (template && !url.searchParams.has(field)) {
+      const value = expand(template);
+      if (value) {
+        url.searchParams.set(field, value);
+        changed = true;
+      }
+    }
+  }
+  return changed ? url.toString() : link.original_url;
+};
@@ -5,7 +5,17 @@ export interface User {
   plan: 'free' | 'pro' | 'enterprise';
 }
 
-export interface Link {
+export type UtmField = 'utm_source' | 'utm_medium' | 'utm_campaign' | 'utm_term' | 'utm_content';
+
+// Campaign templates and per-link overrides; values may contain placeholders like {campaign_name}
+export type UtmFields = Partial<Record<UtmField, string>>;
+
+export type DeepLinkField = 'ios_app_url' | 'ios_store_url' | 'android_app_url' | 'android_store_url';
+
+// App URLs are custom schemes (myapp://...) or https universal / app links
+export type DeepLinkFields = Partial<Record<DeepLinkField, string>>;
+
+export interface Link extends UtmFields, DeepLinkFields {
   id: string;
   user_id: string;
   original_url: string;
@@ -19,6 +29,9 @@ export interface Link {
   cloak_description?: string;
   password_hash?: string;
   expires_at?: string;
+  max_clicks?: number | null;
+  expired_redirect_url?: string;
+  tags?: string;
   is_active: boolean;
   click_count: number;
   created_at: string;
@@ -30,44 +43,268 @@ export interface Click {
   link_id: string;
   campaign_id?: string;
   ip_address: string;
+  // Salted hash of IP and user agent that rotates daily; used for unique counts
+  visitor_id?: string;
   user_agent: string;
   referer?: string;
   country?: string;
   city?: string;
+  is_bot?: boolean;
+  bot_name?: string;
+  // A/B variant the click was sent to, if the link had any
+  variant_id?: string;
+  // Targeting rule that chose the destination, if one matched
+  rule_id?: string;
+  // src marker on the short URL, e.g. qr for QR code scans
+  source?: string;
   device_type: string;
   browser: string;
   os: string;
   created_at: string;
 }
 
-export interface Campaign {
+// Weighted A/B destination of a link; weight 0 pauses it
+export interface LinkVariant {
+  id: string;
+  link_id: string;
+  label: string;
+  url: string;
+  weight: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LinkVariantInput = Pick<LinkVariant, 'label' | 'url' | 'weight'> & { id?: string };
+
+export type RuleMatchType = 'device' | 'os' | 'country' | 'language' | 'day' | 'time';
+
+// Sends matching visitors to destination_url; rules are tried in position order
+export interface TargetingRule {
+  id: string;
+  link_id: string;
+  position: number;
+  label: string;
+  match_type: RuleMatchType;
+  // Comma-separated; any one matching is enough
+  match_values: string;
+  // Used by day and time rules
+  timezone: string;
+  destination_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TargetingRuleInput = Pick<TargetingRule, 'label' | 'match_type' | 'match_values' | 'timezone' | 'destination_url'> & { id?: string };
+
+export interface RuleSimulationRequest {
+  user_agent?: string;
+  accept_language?: string;
+  country?: string;
+  at?: string;
+}
+
+export interface RuleSimulation {
+  context: {
+    device: string;
+    os: string;
+    country: string;
+    language: string;
+    now: string;
+  };
+  results: Array<{ position: number; label: string; matched: boolean }>;
+  matchedPosition: number | null;
+  destination: string;
+  abTest: boolean;
+}
+
+export type QrCodeFormat = 'svg' | 'png';
+
+export type QrCodeErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// Colors are hex; level defaults to H when there is a logo, otherwise M
+export interface QrCodeOptions {
+  format?: QrCodeFormat;
+  size?: number;
+  margin?: number;
+  level?: QrCodeErrorCorrection;
+  fg?: string;
+  bg?: string;
+  logo_url?: string;
+}
+
+export interface Conversion {
+  id: string;
+  click_id: string;
+  link_id: string;
+  campaign_id?: string;
+  variant_id?: string;
+  value: number;
+  currency: string;
+  source: 'postback' | 'pixel';
+  created_at: string;
+}
+
+// Conversion value summed per ISO currency code
+export type Revenue = Record<string, number>;
+
+export interface Campaign extends UtmFields {
   id: string;
   user_id: string;
   name: string;
   description?: string;
   is_active: boolean;
+  link_count?: number;
   total_clicks: number;
   unique_clicks: number;
+  conversions?: number;
   conversion_rate: number;
+  revenue?: Revenue;
+  archived_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface DnsRecord {
+  type: 'CNAME' | 'TXT';
+  name: string;
+  value: string;
+}
+
 export interface Domain {
   id: string;
   user_id: string;
   domain: string;
   is_verified: boolean;
+  verification_token?: string;
+  verified_at?: string;
+  last_checked_at?: string;
+  verification_error?: string;
+  dns_records?: DnsRecord[];
+  root_redirect_url?: string;
+  logo_url?: string;
+  brand_color?: string;
+  background_color?: string;
+  not_found_title?: string;
+  not_found_message?: string;
+  expired_title?: string;
+  expired_message?: string;
+  // Comma-separated TEAMID.bundle.id values for apple-app-site-association
+  ios_app_ids?: string;
+  android_package_name?: string;
+  // Comma-separated SHA-256 signing certificate fingerprints for assetlinks.json
+  android_cert_fingerprints?: string;
   ssl_enabled: boolean;
   is_active: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Where a custom domain's root redirects to and how its error pages look
+export type DomainSettings = Pick<
+  Domain,
+  'root_redirect_url' | 'logo_url' | 'brand_color' | 'background_color' | 'not_found_title' | 'not_found_message' | 'expired_title' | 'expired_message'
+  | 'ios_app_ids' | 'android_package_name' | 'android_cert_fingerprints'
+>;
+
+export type Granularity = 'hour' | 'day' | 'week' | 'month';
+
+export interface AnalyticsQuery {
+  from?: string;
+  to?: string;
+  granularity?: Granularity;
+  tz?: string;
+  link_id?: string;
+  campaign_id?: string;
+  // Bot clicks are excluded from analytics unless this is set
+  include_bots?: 'true';
+}
+
+export interface AliasAvailability {
+  alias: string;
+  available: boolean;
+  error: string | null;
+  suggestions: string[];
+}
+
+export type ImportField = 'original_url' | 'title' | 'campaign' | 'short_code' | 'expires_at' | 'tags';
+
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportResult {
+  dryRun: boolean;
+  columns: string[];
+  mapping: ImportMapping;
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    created: number;
+    newCampaigns: string[];
+  };
+  rows: Array<{
+    row: number;
+    status: 'valid' | 'created' | 'error';
+    errors: string[];
+    original_url: string;
+    title: string;
+    campaign: string;
+    short_code: string;
+    expires_at: string;
+    tags: string;
+  }>;
+}
+
+export type ExportReport = 'clicks' | 'links' | 'timeseries';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+  granularity: Granularity;
+  tz: string;
+}
+
+export interface MetricComparison {
+  current: number | null;
+  previous: number | null;
+  change: number | null;
+}
+
+export interface LinkStats {
+  id: string;
+  short_code: string;
+  title: string;
+  clicks: number;
+  uniqueClicks: number;
+  uniqueRate: number | null;
+  share: number | null;
+  conversions: number;
+  conversionRate: number | null;
+  revenue: Revenue;
+  status: 'active' | 'inactive' | 'expired';
+}
+
 export interface Analytics {
+  range?: AnalyticsRange;
+  previousRange?: AnalyticsRange;
   totalClicks: number;
   uniqueClicks: number;
+  // Bot clicks in the range, whether or not they are included in the figures
+  botClicks?: number;
+  conversions?: number;
+  conversionRate?: number | null;
+  revenue?: Revenue;
+  metrics?: {
+    totalClicks: MetricComparison;
+    uniqueClicks: MetricComparison;
+    uniqueRate: MetricComparison;
+    activeLinks: MetricComparison;
+    newLinks: MetricComparison;
+  };
+  linkStats?: LinkStats[];
   topLinks: Array<{
+    id?: string;
     short_code: string;
     title: string;
     clicks: number;
@@ -76,8 +313,70 @@ export interface Analytics {
     device: string;
     clicks: number;
   }>;
+  // Countries are ISO alpha-2 codes; cities are "City, CC"
+  countries?: BreakdownItem[];
+  cities?: BreakdownItem[];
+  clicksByDay: Array<{
+    date: string;
+    clicks: number;
+  }>;
+}
+
+export interface BreakdownItem {
+  name: string;
+  clicks: number;
+}
+
+export interface VariantStats {
+  id: string;
+  label: string;
+  url: string;
+  weight: number;
+  clicks: number;
+  uniqueClicks: number;
+  uniqueRate: number | null;
+  share: number | null;
+  conversions: number;
+  conversionRate: number | null;
+  revenue: Revenue;
+}
+
+export interface LinkAnalytics {
+  link: {
+    id: string;
+    short_code: string;
+    title: string;
+    original_url: string;
+    created_at: string;
+    status: LinkStats['status'];
+  };
+  range: AnalyticsRange;
+  previousRange: AnalyticsRange;
+  totalClicks: number;
+  uniqueClicks: number;
+  botClicks: number;
+  conversions: number;
+  conversionRate: number | null;
+  revenue: Revenue;
+  metrics: {
+    totalClicks: MetricComparison;
+    uniqueClicks: MetricComparison;
+    uniqueRate: MetricComparison;
+  };
   clicksByDay: Array<{
     date: string;
     clicks: number;
   }>;
-}
\ No newline at end of file
+  referrers: BreakdownItem[];
+  devices: BreakdownItem[];
+  browsers: BreakdownItem[];
+  operatingSystems: BreakdownItem[];
+  countries: BreakdownItem[];
+  cities: BreakdownItem[];
+  // One row per variant, plus "removed" for clicks on deleted variants; empty without A/B testing
+  variants: VariantStats[];
+  // Clicks per targeting rule label; clicks that matched no rule are left out
+  rules: BreakdownItem[];
+  sources: BreakdownItem[];
+  recentClicks: Array<Pick<Click, 'id' | 'created_at' | 'referer' | 'device_type' | 'browser' | 'os' | 'country' | 'city' | 'is_bot' | 'bot_name' | 'variant_id' | 'rule_id' | 'source'>>;
+}